@@ -4,10 +4,15 @@ import { DelphinusReactProvider } from 'zkwasm-minirollup-browser';
 import { Toaster as Sonner } from "./components/ui/sonner";
 import { Toaster } from "./components/ui/toaster";
 import { TooltipProvider } from "./components/ui/tooltip";
+import { ConditionalOrderProvider } from "./contexts/ConditionalOrderContext";
 import { MarketProvider } from "./contexts/MarketContext";
+import { RollupClockProvider } from "./contexts/RollupClockContext";
+import { TransactionProvider } from "./contexts/TransactionContext";
+import Admin from "./pages/Admin";
 import Index from "./pages/Index";
 import MarketList from "./pages/MarketList";
 import NotFound from "./pages/NotFound";
+import Portfolio from "./pages/Portfolio";
 
 const queryClient = new QueryClient();
 
@@ -16,18 +21,26 @@ const App = () => (
     <QueryClientProvider client={queryClient}>
         <BrowserRouter>
           <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <Routes>
-              <Route path="/" element={<MarketList />} />
-              <Route path="/:marketId" element={
-                <MarketProvider>
-                  <Index />
-                </MarketProvider>
-              } />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
+            <RollupClockProvider>
+              <TransactionProvider>
+                <Toaster />
+                <Sonner />
+                <Routes>
+                  <Route path="/" element={<MarketList />} />
+                  <Route path="/portfolio" element={<Portfolio />} />
+                  <Route path="/admin" element={<Admin />} />
+                  <Route path="/:marketId" element={
+                    <MarketProvider>
+                      <ConditionalOrderProvider>
+                        <Index />
+                      </ConditionalOrderProvider>
+                    </MarketProvider>
+                  } />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </TransactionProvider>
+            </RollupClockProvider>
           </TooltipProvider>
         </BrowserRouter>
     </QueryClientProvider>
@@ -0,0 +1,190 @@
+import { BarChart3, Loader2, RefreshCw } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useRollupClock } from '../contexts/RollupClockContext';
+import { TradeAnalyticsData } from '../hooks/use-trade-analytics';
+import { liquidityDepth, summarizeTrades } from '../utils/admin-analytics';
+import { MarketCalculations } from '../utils/market-calculations';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+const ALL_MARKETS = 'all';
+
+// Buckets are UTC-aligned, so label them in UTC too
+const formatDay = (start: number) => new Date(start).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+const formatHour = (start: number) =>
+  new Date(start).toLocaleString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric', hour: '2-digit' });
+
+interface AdminAnalyticsProps {
+  analytics: TradeAnalyticsData;
+  markets: { marketId: string; titleString: string }[];
+}
+
+const AdminAnalytics: React.FC<AdminAnalyticsProps> = ({ analytics, markets }) => {
+  const { clock } = useRollupClock();
+  const [scope, setScope] = useState(ALL_MARKETS);
+  const { trades, liquidity, isLoading, error, reload } = analytics;
+
+  const scopedTrades = useMemo(
+    () => (scope === ALL_MARKETS ? trades : trades.filter((trade) => trade.marketId === scope)),
+    [trades, scope]
+  );
+  const summary = useMemo(() => (clock ? summarizeTrades(scopedTrades, clock) : null), [scopedTrades, clock]);
+  const depth = useMemo(() => {
+    if (!clock) return [];
+    const histories = scope === ALL_MARKETS ? Object.values(liquidity) : [liquidity[scope] ?? []];
+    return liquidityDepth(histories, clock);
+  }, [liquidity, scope, clock]);
+
+  const stats = summary ? [
+    { label: 'Recent Trades', value: summary.trades.toLocaleString() },
+    { label: 'Recent Traders', value: summary.uniqueTraders.toLocaleString() },
+    { label: 'Recent Volume', value: MarketCalculations.formatNumber(summary.volume) },
+    { label: 'Recent Fees', value: MarketCalculations.formatNumber(summary.fees) },
+  ] : [];
+  // Share of net flow going to YES, for the imbalance bar
+  const yesShare = summary ? (summary.flow.imbalance + 1) / 2 : 0.5;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" />
+          Analytics
+        </h3>
+        <div className="flex items-center gap-2">
+          {markets.length > 1 && (
+            <Select value={scope} onValueChange={(value: string) => setScope(value)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MARKETS}>All markets</SelectItem>
+                {markets.map((market) => (
+                  <SelectItem key={market.marketId} value={market.marketId}>{market.titleString}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" size="sm" onClick={reload} disabled={isLoading} aria-label="Reload analytics">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : !summary || (isLoading && trades.length === 0) ? (
+        <div className="flex items-center justify-center py-6 text-muted-foreground text-sm">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading analytics...
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(({ label, value }) => (
+              <div key={label} className="text-center p-3 bg-muted/50 rounded-lg">
+                <div className="font-semibold">{value}</div>
+                <div className="text-sm text-muted-foreground">{label}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Trade figures cover only the latest trades each feed returns, not the full market history.
+          </p>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent volume and fees per day (UTC)</h4>
+            {summary.daily.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No trades yet.</p>
+            ) : (
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={summary.daily}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
+                    <XAxis dataKey="start" stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => formatDay(value)} />
+                    <YAxis stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => MarketCalculations.formatNumber(value)} />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [value.toLocaleString(), name === 'volume' ? 'Volume' : 'Fees']}
+                      labelFormatter={(value: number) => formatDay(value)}
+                    />
+                    <Legend formatter={(value: string) => (value === 'volume' ? 'Volume' : 'Fees')} />
+                    <Bar dataKey="volume" fill="#3b82f6" />
+                    <Bar dataKey="fees" fill="#f59e0b" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent YES/NO flow</h4>
+            <div className="flex h-3 rounded-full overflow-hidden bg-muted">
+              <div className="bg-bull-500" style={{ width: `${yesShare * 100}%` }} />
+              <div className="bg-bear-500 flex-1" />
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>YES net {summary.flow.yesFlow.toLocaleString()}</span>
+              <span>
+                {summary.flow.imbalance === 0
+                  ? 'Balanced'
+                  : `${Math.abs(summary.flow.imbalance * 100).toFixed(0)}% toward ${summary.flow.imbalance > 0 ? 'YES' : 'NO'}`}
+              </span>
+              <span>NO net {summary.flow.noFlow.toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Largest recent buyers</h4>
+            {summary.holders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open positions in this window.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-1 pr-4 font-medium">Player</th>
+                    <th className="py-1 pr-4 font-medium text-right">YES Shares</th>
+                    <th className="py-1 font-medium text-right">NO Shares</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.holders.map((holder) => (
+                    <tr key={holder.player} className="border-b last:border-0">
+                      <td className="py-1 pr-4 font-mono text-xs">{holder.player}</td>
+                      <td className="py-1 pr-4 text-right text-bull-600">{holder.yesShares.toLocaleString()}</td>
+                      <td className="py-1 text-right text-bear-600">{holder.noShares.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Liquidity depth (hourly, UTC)</h4>
+            {depth.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No liquidity history.</p>
+            ) : (
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={depth}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
+                    <XAxis dataKey="start" stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => formatHour(value)} />
+                    <YAxis stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => MarketCalculations.formatNumber(value)} />
+                    <Tooltip
+                      formatter={(value: number) => [value.toLocaleString(), 'Liquidity']}
+                      labelFormatter={(value: number) => formatHour(value)}
+                    />
+                    <Line type="monotone" dataKey="depth" stroke="#8b5cf6" dot={false} strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdminAnalytics;
@@ -2,8 +2,13 @@
 import { Award, DollarSign, Settings, TrendingUp, Users } from 'lucide-react';
 import React, { useState } from 'react';
 import { useToast } from '../hooks/use-toast';
+import { TradeAnalyticsData } from '../hooks/use-trade-analytics';
 import { MarketData } from '../types/market';
-import { MarketCalculations } from '../utils/market-calculations';
+import { parsePlayerIdentifier } from '../utils/admin';
+import { countUniqueTraders } from '../utils/admin-analytics';
+import { MarketCalculations, MarketStatus } from '../utils/market-calculations';
+import AdminAnalytics from './AdminAnalytics';
+import TypedConfirmDialog from './TypedConfirmDialog';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -14,15 +19,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 
 interface AdminPanelProps {
   market: MarketData;
+  marketId: string;
   isAdmin: boolean;
-  onResolveMarket: (outcome: boolean) => void;
-  onWithdrawFees: () => void;
-  onDepositFunds: (playerId: string, amount: number) => void;
+  analytics: TradeAnalyticsData;
+  onResolveMarket: (outcome: boolean) => Promise<void>;
+  onWithdrawFees: () => Promise<void>;
+  onDepositFunds: (playerId: [string, string], amount: number) => Promise<void>;
 }
 
 const AdminPanel: React.FC<AdminPanelProps> = ({
   market,
+  marketId,
   isAdmin,
+  analytics,
   onResolveMarket,
   onWithdrawFees,
   onDepositFunds
@@ -30,6 +39,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
   const [depositPlayerId, setDepositPlayerId] = useState('');
   const [depositAmount, setDepositAmount] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Outcome awaiting typed confirmation, if any
+  const [confirmOutcome, setConfirmOutcome] = useState<boolean | null>(null);
   const { toast } = useToast();
 
   if (!isAdmin) {
@@ -48,6 +59,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
   const yesLiquidity = BigInt(market.yes_liquidity || 0);
   const noLiquidity = BigInt(market.no_liquidity || 0);
   const totalLiquidity = MarketCalculations.getTotalLiquidity(yesLiquidity, noLiquidity);
+  // The rollup rejects resolutions until trading has ended
+  const tradingEnded = market.market_status === MarketStatus.WAIT_RESOLUTION
+    || market.market_status === MarketStatus.PENDING_RESOLUTION;
 
   const handleResolveMarket = async (outcome: boolean) => {
     if (market.resolved) {
@@ -59,19 +73,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       return;
     }
 
+    // The market context reports the outcome of the command
     setIsLoading(true);
     try {
       await onResolveMarket(outcome);
-      toast({
-        title: "Market Resolved",
-        description: `Market resolved with outcome: ${outcome ? 'YES' : 'NO'}`,
-      });
-    } catch (error) {
-      toast({
-        title: "Resolution Failed",
-        description: "Failed to resolve market. Please try again.",
-        variant: "destructive"
-      });
     } finally {
       setIsLoading(false);
     }
@@ -90,16 +95,6 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     setIsLoading(true);
     try {
       await onWithdrawFees();
-      toast({
-        title: "Fees Withdrawn",
-        description: `Successfully withdrew ${feesCollected} tokens in fees`,
-      });
-    } catch (error) {
-      toast({
-        title: "Withdrawal Failed",
-        description: "Failed to withdraw fees. Please try again.",
-        variant: "destructive"
-      });
     } finally {
       setIsLoading(false);
     }
@@ -115,11 +110,21 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       return;
     }
 
-    const amount = parseFloat(depositAmount);
-    if (amount <= 0) {
+    const playerId = parsePlayerIdentifier(depositPlayerId);
+    if (!playerId) {
+      toast({
+        title: "Invalid Player ID",
+        description: "Enter a player ID pair such as \"123, 456\" or the player's L2 public key (64 hex characters)",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const amount = Number(depositAmount);
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
       toast({
         title: "Invalid Amount",
-        description: "Please enter a valid positive amount",
+        description: "Please enter a whole number of tokens greater than 0",
         variant: "destructive"
       });
       return;
@@ -127,19 +132,11 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
 
     setIsLoading(true);
     try {
-      await onDepositFunds(depositPlayerId, amount);
+      await onDepositFunds(playerId, amount);
       setDepositPlayerId('');
       setDepositAmount('');
-      toast({
-        title: "Funds Deposited",
-        description: `Deposited ${amount} tokens to player ${depositPlayerId}`,
-      });
     } catch (error) {
-      toast({
-        title: "Deposit Failed",
-        description: "Failed to deposit funds. Please try again.",
-        variant: "destructive"
-      });
+      console.error('Admin deposit failed:', error);
     } finally {
       setIsLoading(false);
     }
@@ -155,8 +152,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="resolution">Resolution</TabsTrigger>
             <TabsTrigger value="funds">Funds</TabsTrigger>
             <TabsTrigger value="fees">Fees</TabsTrigger>
@@ -184,8 +182,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
               
               <div className="text-center p-3 bg-muted/50 rounded-lg">
                 <Users className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-                <div className="font-semibold">--</div>
-                <div className="text-sm text-muted-foreground">Active Users</div>
+                <div className="font-semibold">
+                  {analytics.isLoading && analytics.trades.length === 0 ? '--' : countUniqueTraders(analytics.trades)}
+                </div>
+                <div className="text-sm text-muted-foreground">Recent Traders</div>
               </div>
             </div>
 
@@ -213,6 +213,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
             </div>
           </TabsContent>
 
+          <TabsContent value="analytics" className="space-y-4">
+            <AdminAnalytics analytics={analytics} markets={[{ marketId, titleString: market.titleString }]} />
+          </TabsContent>
+
           <TabsContent value="resolution" className="space-y-4">
             <div className="space-y-4">
               <h3 className="font-semibold">Market Resolution</h3>
@@ -238,23 +242,43 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
                   <p className="text-muted-foreground">
                     Resolve the market by selecting the winning outcome. This action cannot be undone.
                   </p>
+                  {!tradingEnded && (
+                    <p className="text-sm text-muted-foreground">
+                      Resolution opens once trading has ended.
+                    </p>
+                  )}
                   
                   <div className="grid grid-cols-2 gap-3">
                     <Button
-                      onClick={() => handleResolveMarket(true)}
-                      disabled={isLoading}
+                      onClick={() => setConfirmOutcome(true)}
+                      disabled={isLoading || !tradingEnded}
                       className="price-gradient-yes hover:opacity-90"
                     >
                       Resolve YES
                     </Button>
                     <Button
-                      onClick={() => handleResolveMarket(false)}
-                      disabled={isLoading}
+                      onClick={() => setConfirmOutcome(false)}
+                      disabled={isLoading || !tradingEnded}
                       className="price-gradient-no hover:opacity-90"
                     >
                       Resolve NO
                     </Button>
                   </div>
+                  <TypedConfirmDialog
+                    open={confirmOutcome !== null}
+                    onOpenChange={(open) => !open && setConfirmOutcome(null)}
+                    title={`Resolve ${confirmOutcome ? 'YES' : 'NO'}?`}
+                    description={
+                      <>
+                        "{market.titleString}" will pay out to {confirmOutcome ? 'YES' : 'NO'} holders. Resolution is
+                        final and cannot be changed afterwards.
+                      </>
+                    }
+                    confirmText={confirmOutcome ? 'YES' : 'NO'}
+                    actionLabel={`Resolve ${confirmOutcome ? 'YES' : 'NO'}`}
+                    actionClassName={confirmOutcome ? 'price-gradient-yes' : 'price-gradient-no'}
+                    onConfirm={() => confirmOutcome !== null && handleResolveMarket(confirmOutcome)}
+                  />
                 </div>
               )}
             </div>
@@ -266,10 +290,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
               
               <div className="space-y-3">
                 <div>
-                  <Label htmlFor="playerId">Player ID</Label>
+                  <Label htmlFor="playerId">Player ID or L2 Public Key</Label>
                   <Input
                     id="playerId"
-                    placeholder="Enter player ID"
+                    placeholder="123, 456 or 64 hex characters"
                     value={depositPlayerId}
                     onChange={(e) => setDepositPlayerId(e.target.value)}
                   />
@@ -0,0 +1,46 @@
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+
+interface AnimatedPriceProps {
+  value: number;
+  suffix?: string;
+  className?: string;
+}
+
+// How long a price change stays highlighted
+const HIGHLIGHT_DURATION_MS = 1500;
+
+// Displays a price and briefly highlights it with its direction whenever it changes
+const AnimatedPrice: React.FC<AnimatedPriceProps> = ({ value, suffix = '', className }) => {
+  const previousValue = useRef(value);
+  const [direction, setDirection] = useState<'up' | 'down' | null>(null);
+
+  useEffect(() => {
+    if (value === previousValue.current) {
+      return;
+    }
+    setDirection(value > previousValue.current ? 'up' : 'down');
+    previousValue.current = value;
+
+    const timeout = setTimeout(() => setDirection(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [value]);
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded px-1 transition-colors duration-700',
+        direction === 'up' && 'bg-green-200',
+        direction === 'down' && 'bg-red-200',
+        className
+      )}
+    >
+      {value}{suffix}
+      {direction === 'up' && <ArrowUp className="h-4 w-4 animate-fade-in" />}
+      {direction === 'down' && <ArrowDown className="h-4 w-4 animate-fade-in" />}
+    </span>
+  );
+};
+
+export default AnimatedPrice;
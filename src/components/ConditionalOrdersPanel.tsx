@@ -0,0 +1,189 @@
+import { ListChecks, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { useConditionalOrders } from '../contexts/ConditionalOrderContext';
+import { useToast } from '../hooks/use-toast';
+import { MarketError, marketErrorToast } from '../services/marketErrors';
+import { ConditionalOrderKind, ConditionalOrderStatus } from '../types/market';
+import { describeOrder, ORDER_KINDS } from '../utils/conditional-orders';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Separator } from './ui/separator';
+
+const STATUS_STYLES: Record<ConditionalOrderStatus, string> = {
+  OPEN: 'border-blue-500 text-blue-600',
+  SUBMITTING: 'border-amber-500 text-amber-600',
+  FILLED: 'border-bull-500 text-bull-600',
+  FAILED: 'border-bear-500 text-bear-600',
+  CANCELLED: 'text-muted-foreground',
+};
+
+interface ConditionalOrdersPanelProps {
+  canTrade: boolean;
+}
+
+const ConditionalOrdersPanel: React.FC<ConditionalOrdersPanelProps> = ({ canTrade }) => {
+  const { orders, log, placeOrder, cancelOrder, clearClosedOrders } = useConditionalOrders();
+  const { toast } = useToast();
+  const [kind, setKind] = useState<ConditionalOrderKind>('LIMIT_BUY');
+  const [side, setSide] = useState<0 | 1>(1);
+  const [triggerPercent, setTriggerPercent] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const { action } = ORDER_KINDS[kind];
+  // Stop-loss and take-profit close the whole side unless a size is given
+  const amountOptional = kind === 'STOP_LOSS' || kind === 'TAKE_PROFIT';
+  const hasClosedOrders = orders.some((order) => order.status !== 'OPEN' && order.status !== 'SUBMITTING');
+
+  const handlePlace = () => {
+    const trigger = parseFloat(triggerPercent);
+    if (!(trigger > 0 && trigger < 100)) {
+      toast(marketErrorToast(MarketError.INVALID_AMOUNT, "Invalid Trigger", "The trigger price must be between 0% and 100%."));
+      return;
+    }
+    // Orders trade whole tokens or shares, so validate the size that will actually be sent
+    const size = amount === '' && amountOptional ? null : Math.floor(parseFloat(amount));
+    if (size !== null && !(size >= 1)) {
+      toast(marketErrorToast(
+        MarketError.INVALID_AMOUNT,
+        "Invalid Amount",
+        action === 'BUY' ? "The amount to spend must be at least 1 token." : "The number of shares must be at least 1."
+      ));
+      return;
+    }
+
+    placeOrder({ kind, side, amount: size, triggerPrice: trigger / 100 });
+    setTriggerPercent('');
+    setAmount('');
+  };
+
+  return (
+    <Card className="gradient-card animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Conditional Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(ORDER_KINDS) as ConditionalOrderKind[]).map((value) => (
+            <Button
+              key={value}
+              variant={kind === value ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setKind(value)}
+            >
+              {ORDER_KINDS[value].label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant={side === 1 ? "default" : "outline"}
+            className={side === 1 ? "price-gradient-yes text-white" : ""}
+            onClick={() => setSide(1)}
+          >
+            YES
+          </Button>
+          <Button
+            variant={side === 0 ? "default" : "outline"}
+            className={side === 0 ? "price-gradient-no text-white" : ""}
+            onClick={() => setSide(0)}
+          >
+            NO
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="orderTrigger">
+              {side === 1 ? 'YES' : 'NO'} price {ORDER_KINDS[kind].direction === 'LTE' ? '≤' : '≥'} (%)
+            </Label>
+            <Input
+              id="orderTrigger"
+              type="number"
+              placeholder="e.g. 40"
+              value={triggerPercent}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTriggerPercent(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="orderAmount">{action === 'BUY' ? 'Tokens to spend' : 'Shares to sell'}</Label>
+            <Input
+              id="orderAmount"
+              type="number"
+              placeholder={amountOptional ? "All shares" : "Enter amount"}
+              value={amount}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handlePlace} className="w-full" variant="outline">
+          Place {ORDER_KINDS[kind].label}
+        </Button>
+        <div className="text-xs text-muted-foreground">
+          Orders are stored in this browser and only execute while this market page is open
+          {!canTrade && '; trading is closed, so none will fire until it reopens'}.
+        </div>
+
+        {orders.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm">Orders</h3>
+                {hasClosedOrders && (
+                  <Button variant="ghost" size="sm" onClick={clearClosedOrders}>
+                    Clear closed
+                  </Button>
+                )}
+              </div>
+              {orders.map((order) => (
+                <div key={order.id} className="flex items-start justify-between gap-2 text-sm">
+                  <div className="space-y-1">
+                    <div>{describeOrder(order)}</div>
+                    {order.error && <div className="text-xs text-bear-600">{order.error}</div>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant="outline" className={STATUS_STYLES[order.status]}>
+                      {order.status}
+                    </Badge>
+                    {order.status === 'OPEN' && (
+                      <Button variant="ghost" size="sm" onClick={() => cancelOrder(order.id)} aria-label="Cancel order">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {log.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-1">
+              <h3 className="font-semibold text-sm">Activity</h3>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {log.map((entry, index) => (
+                  <div key={`${entry.orderId}-${index}`} className="text-xs text-muted-foreground">
+                    <span className="mr-2">{entry.timestamp.toLocaleTimeString()}</span>
+                    {entry.message}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConditionalOrdersPanel;
@@ -1,19 +1,156 @@
-import { TrendingUp } from 'lucide-react';
+import { History, Loader2, TrendingUp, User } from 'lucide-react';
 import React, { useEffect, useMemo, useState } from 'react';
-import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  Area,
+  Bar,
+  BarChart,
+  Brush,
+  CartesianGrid,
+  ComposedChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { CategoricalChartState } from 'recharts/types/chart/types';
 import { useMarket } from '../contexts/MarketContext';
-import { MarketData } from '../types/market';
+import { useRollupClock } from '../contexts/RollupClockContext';
+import { ChartDataPoint, MarketData, TransactionData } from '../types/market';
+import {
+  buildCandles,
+  Candle,
+  CANDLE_INTERVALS,
+  CandleInterval,
+  DEFAULT_CANDLE_INTERVAL,
+  getCandleIntervalMs,
+  toTradePoint
+} from '../utils/candles';
+import { CHART_RANGE_PRESETS, ChartRangePreset, computePriceDomain, presetStartCounter } from '../utils/chart-range';
 import { MarketCalculations } from '../utils/market-calculations';
+import { counterToTime } from '../utils/rollup-clock';
+import { groupMarkersByCounter, toTradeMarker, TradeMarker } from '../utils/trade-markers';
+import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 
+type ChartMode = 'line' | 'candles';
+
+const TRADE_LABELS: Record<TransactionData['transactionType'], string> = {
+  BET_YES: 'Buy YES',
+  BET_NO: 'Buy NO',
+  SELL_YES: 'Sell YES',
+  SELL_NO: 'Sell NO',
+};
+
+// Points shown before the user pans or zooms the line chart
+const DEFAULT_VISIBLE_POINTS = 100;
+
+// Visible slice of history in counters; a null `to` follows the live edge
+interface ChartWindow {
+  from: number;
+  to: number | null;
+}
+
+// Per-share sell quote for 100 shares, the price both chart modes plot
+const sidePrice = (side: 0 | 1, point: Pick<ChartDataPoint, 'yesLiquidity' | 'noLiquidity'>) =>
+  MarketCalculations.calculateAmountForShares(side, 100, BigInt(point.yesLiquidity), BigInt(point.noLiquidity)) / 100;
+
+const formatCandleTime = (time: number, interval: CandleInterval) =>
+  new Date(time).toLocaleString('en-US', interval === '1d'
+    ? { month: 'short', day: 'numeric' }
+    : { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// YES price of the point under the cursor, if the pointer is over the plot
+const hoveredYesPrice = (state: CategoricalChartState): number | null => {
+  const point: { yesPrice?: number } | undefined = state.activePayload?.[0]?.payload;
+  return point?.yesPrice ?? null;
+};
+
+// Bar geometry recharts passes to a custom shape, plus the candle it plots
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: Candle;
+}
+
+// Candle as plotted, with the formatted bucket time the tooltip shows
+interface CandlePoint extends Candle {
+  fullTime: string;
+}
+
+// Wick spans low..high; the body spans open..close within the same pixel range
+const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+  if (!payload) return null;
+  const { open, high, low, close } = payload;
+  const color = close >= open ? '#22c55e' : '#ef4444';
+  const toY = (value: number) => (high > low ? y + ((high - value) / (high - low)) * height : y);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const center = x + width / 2;
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={y} y2={y + Math.max(height, 1)} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} />
+    </g>
+  );
+};
+
+// Point position recharts passes to a custom scatter shape, plus the side it marks
+interface TradeMarkerShapeProps {
+  cx?: number;
+  cy?: number;
+  payload?: { myTrades: TradeMarker[] };
+  side: TradeMarker['side'];
+}
+
+// Triangle pointing up for buys and down for sells, drawn on the traded side's line
+const TradeMarkerShape = ({ cx, cy, payload, side }: TradeMarkerShapeProps) => {
+  const markers = payload?.myTrades.filter((marker) => marker.side === side) ?? [];
+  if (markers.length === 0 || cx === undefined || cy === undefined || !Number.isFinite(cx) || !Number.isFinite(cy)) return null;
+  const color = side === 'YES' ? '#15803d' : '#b91c1c';
+  const hasBuy = markers.some((marker) => marker.action === 'BUY');
+  const hasSell = markers.some((marker) => marker.action === 'SELL');
+  return (
+    <g fill={color} stroke="#ffffff" strokeWidth={1}>
+      {hasBuy && <path d={`M${cx},${cy - 7} L${cx + 6},${cy + 3} L${cx - 6},${cy + 3} Z`} />}
+      {hasSell && <path d={`M${cx},${cy + 7} L${cx + 6},${cy - 3} L${cx - 6},${cy - 3} Z`} />}
+    </g>
+  );
+};
+
 interface MarketChartProps {
   market: MarketData;
 }
 
 const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
-  const { chartData, loadMarketHistory, globalState } = useMarket();
+  const {
+    chartData,
+    loadMarketHistory,
+    loadOlderMarketHistory,
+    loadMarketHistoryFrom,
+    hasOlderHistory,
+    historyRangeSupported,
+    isLoadingOlderHistory,
+    globalState,
+    api,
+    marketId,
+    userHistory
+  } = useMarket();
+  const { clock, counterToDate } = useRollupClock();
   const [currentTime, setCurrentTime] = useState(Date.now());
   const [lastLoadedCounter, setLastLoadedCounter] = useState<number>(0);
+  const [mode, setMode] = useState<ChartMode>('line');
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>(DEFAULT_CANDLE_INTERVAL);
+  const [candleSide, setCandleSide] = useState<0 | 1>(1);
+  const [trades, setTrades] = useState<TransactionData[]>([]);
+  const [chartWindow, setChartWindow] = useState<ChartWindow | null>(null);
+  const [rangePreset, setRangePreset] = useState<ChartRangePreset | null>(null);
+  const [hoverPrice, setHoverPrice] = useState<number | null>(null);
+  const [showMyTrades, setShowMyTrades] = useState(true);
 
   // Load market history
   useEffect(() => {
@@ -31,6 +168,50 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
     }
   }, [globalState?.counter]);
 
+  // Trades feed the volume pane and the per-counter tooltip
+  useEffect(() => {
+    if (!api || !marketId) return;
+    api.getMarketRecentTransactions(marketId)
+      .then(setTrades)
+      .catch((error) => console.error('Failed to load market trades for chart:', error));
+  }, [api, marketId, globalState?.counter]);
+
+  const tradesByCounter = useMemo(() => {
+    const byCounter = new Map<number, TransactionData[]>();
+    for (const trade of trades) {
+      const counter = Number(trade.counter);
+      byCounter.set(counter, [...(byCounter.get(counter) ?? []), trade]);
+    }
+    return byCounter;
+  }, [trades]);
+
+  const userMarkers = useMemo(
+    () => (userHistory?.data ?? []).map(toTradeMarker),
+    [userHistory]
+  );
+
+  const candles = useMemo(() => {
+    if (!clock || !chartData || chartData.length === 0) {
+      return [];
+    }
+    const timeOf = (counter: number) => counterToTime(clock, counter);
+    return buildCandles(
+      chartData.map((point) => ({ time: timeOf(point.counter), price: sidePrice(candleSide, point) })),
+      trades.map((trade) => toTradePoint(trade, timeOf)),
+      getCandleIntervalMs(candleInterval)
+    ).map((candle) => ({
+      ...candle,
+      label: formatCandleTime(candle.time, candleInterval),
+      fullTime: new Date(candle.time).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false
+      }),
+    }));
+  }, [clock, chartData, trades, candleSide, candleInterval]);
+
   // Transform chart data for recharts format
   const transformedChartData = useMemo(() => {
     console.log('MarketChart - transformedChartData: chartData length =', chartData?.length || 0);
@@ -43,9 +224,11 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
       const noAmount = MarketCalculations.calculateAmountForShares(0, 100, BigInt(market.yes_liquidity), BigInt(market.no_liquidity));
       const yesPrice = yesAmount / 100;
       const noPrice = noAmount / 100;
+      const timestamp = counterToDate(globalState?.counter || 0) ?? new Date();
+      const probabilities = MarketCalculations.calculatePrices(BigInt(market.yes_liquidity), BigInt(market.no_liquidity));
       
       return [{
-        time: new Date().toLocaleTimeString('en-US', { 
+        time: timestamp.toLocaleTimeString('en-US', { 
           hour: '2-digit', 
           minute: '2-digit',
           hour12: false 
@@ -53,7 +236,15 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
         counter: globalState?.counter || 0,
         yesPrice: yesPrice,
         noPrice: noPrice,
-        fullTime: new Date().toLocaleString('en-US', {
+        yesProbability: probabilities.yesPrice,
+        noProbability: probabilities.noPrice,
+        yesLiquidity: Number(market.yes_liquidity),
+        noLiquidity: Number(market.no_liquidity),
+        trades: [] as TransactionData[],
+        myTrades: userMarkers,
+        myYesMarker: userMarkers.some((marker) => marker.side === 'YES') ? yesPrice : null,
+        myNoMarker: userMarkers.some((marker) => marker.side === 'NO') ? noPrice : null,
+        fullTime: timestamp.toLocaleString('en-US', {
           month: 'short',
           day: 'numeric',
           hour: '2-digit',
@@ -65,18 +256,18 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
 
     console.log('MarketChart - Using historical chart data with', chartData.length, 'points');
     
+    const markersByCounter = groupMarkersByCounter(userMarkers, chartData.map((point) => point.counter));
+
     return chartData.map((point) => {
-      const counterInterval = 5; // seconds
-      const approximateTimestamp = Date.now() - ((globalState?.counter || 0) - point.counter) * counterInterval * 1000;
+      const myTrades = markersByCounter.get(point.counter) ?? [];
+      const timestamp = counterToDate(point.counter) ?? (point.timestamp ? new Date(point.timestamp) : new Date());
       
       // Calculate prices using point's liquidity with sell algorithm
-      const yesAmount = MarketCalculations.calculateAmountForShares(1, 100, BigInt(point.yesLiquidity), BigInt(point.noLiquidity));
-      const noAmount = MarketCalculations.calculateAmountForShares(0, 100, BigInt(point.yesLiquidity), BigInt(point.noLiquidity));
-      const yesPrice = yesAmount / 100;
-      const noPrice = noAmount / 100;
+      const yesPrice = sidePrice(1, point);
+      const noPrice = sidePrice(0, point);
       
       return {
-        time: new Date(approximateTimestamp).toLocaleTimeString('en-US', { 
+        time: timestamp.toLocaleTimeString('en-US', { 
           hour: '2-digit', 
           minute: '2-digit',
           hour12: false 
@@ -84,7 +275,15 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
         counter: point.counter,
         yesPrice: yesPrice,
         noPrice: noPrice,
-        fullTime: new Date(approximateTimestamp).toLocaleString('en-US', {
+        yesProbability: point.yesPrice,
+        noProbability: point.noPrice,
+        yesLiquidity: point.yesLiquidity,
+        noLiquidity: point.noLiquidity,
+        trades: tradesByCounter.get(point.counter) ?? [],
+        myTrades,
+        myYesMarker: myTrades.some((marker) => marker.side === 'YES') ? yesPrice : null,
+        myNoMarker: myTrades.some((marker) => marker.side === 'NO') ? noPrice : null,
+        fullTime: timestamp.toLocaleString('en-US', {
           month: 'short',
           day: 'numeric',
           hour: '2-digit',
@@ -93,7 +292,7 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
         })
       };
     });
-  }, [chartData, market, currentTime]);
+  }, [chartData, market, currentTime, counterToDate, tradesByCounter, userMarkers]);
 
   // Calculate trend indicators based on current and previous counter prices
   const calculatePriceTrends = useMemo(() => {
@@ -130,21 +329,103 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
 
   const { yesTrend, noTrend } = calculatePriceTrends;
 
+  // Map the counter window onto indexes; tracking counters keeps the view still when older pages are prepended
+  const lastIndex = transformedChartData.length - 1;
+  const brushStartIndex = chartWindow
+    ? Math.max(0, transformedChartData.findIndex((point) => point.counter >= chartWindow.from))
+    : Math.max(0, transformedChartData.length - DEFAULT_VISIBLE_POINTS);
+  const windowEnd = chartWindow?.to ?? null;
+  const brushEndIndex = windowEnd === null
+    ? lastIndex
+    : Math.max(brushStartIndex, transformedChartData.filter((point) => point.counter <= windowEnd).length - 1);
+
+  // Scale the Y axis to what is on screen rather than the full 0..2 range
+  const priceDomain = useMemo(() => {
+    if (mode === 'candles') {
+      return computePriceDomain(candles.flatMap((candle) => [candle.low, candle.high]));
+    }
+    return computePriceDomain(
+      transformedChartData.slice(brushStartIndex, brushEndIndex + 1).flatMap((point) => [point.yesPrice, point.noPrice])
+    );
+  }, [mode, candles, transformedChartData, brushStartIndex, brushEndIndex]);
+
+  const handleRangePreset = (preset: ChartRangePreset) => {
+    if (!clock) return;
+    const from = presetStartCounter(preset, clock, Date.now(), market.start_time ?? 0);
+    setRangePreset(preset);
+    setChartWindow({ from, to: null });
+    if (chartData.length === 0 || from < chartData[0].counter) {
+      loadMarketHistoryFrom(from);
+    }
+  };
+
+  const handleBrushChange = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    setRangePreset(null);
+    setChartWindow({
+      from: transformedChartData[startIndex].counter,
+      to: endIndex >= lastIndex ? null : transformedChartData[endIndex].counter,
+    });
+    // Panning or zooming onto the oldest loaded point pulls in the previous page
+    if (startIndex === 0 && hasOlderHistory) {
+      loadOlderMarketHistory();
+    }
+  };
+
   // Get latest data for display
   const latestData = transformedChartData[transformedChartData.length - 1];
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
-      const dataPoint = payload[0].payload;
+      const dataPoint = payload[0].payload as (typeof transformedChartData)[number];
+      return (
+        <div className="bg-background border border-border rounded-lg p-3 shadow-lg text-sm space-y-1">
+          <p className="font-medium">Counter: {dataPoint.counter}</p>
+          <p className="text-muted-foreground">{dataPoint.fullTime || label}</p>
+          <p className="text-bull-600">
+            YES: {dataPoint.yesPrice.toFixed(3)} ({MarketCalculations.formatPrice(dataPoint.yesProbability)})
+          </p>
+          <p className="text-bear-600">
+            NO: {dataPoint.noPrice.toFixed(3)} ({MarketCalculations.formatPrice(dataPoint.noProbability)})
+          </p>
+          <p className="text-muted-foreground">
+            Liquidity: {MarketCalculations.formatNumber(dataPoint.yesLiquidity)} YES / {MarketCalculations.formatNumber(dataPoint.noLiquidity)} NO
+          </p>
+          {showMyTrades && dataPoint.myTrades.length > 0 && (
+            <div className="border-t pt-1">
+              <p className="font-medium">Your trades</p>
+              {dataPoint.myTrades.map((marker) => (
+                <p key={marker.index}>
+                  {marker.action === 'BUY' ? 'Bought' : 'Sold'} {MarketCalculations.formatNumber(marker.shares)} {marker.side} for {MarketCalculations.formatNumber(marker.amount)} @ {marker.effectivePrice.toFixed(3)} (counter {marker.counter})
+                </p>
+              ))}
+            </div>
+          )}
+          {dataPoint.trades.length > 0 && (
+            <div className="border-t pt-1">
+              {dataPoint.trades.map((trade) => (
+                <p key={trade.index}>
+                  {TRADE_LABELS[trade.transactionType]}: {MarketCalculations.formatNumber(Number(trade.amount))} for {MarketCalculations.formatNumber(Number(trade.shares))} shares
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const CandleTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      const candle = payload[0].payload as CandlePoint;
       return (
-        <div className="bg-background border border-border rounded-lg p-3 shadow-lg">
-          <p className="font-medium mb-2">Counter: {dataPoint.counter}</p>
-          <p className="text-sm text-muted-foreground mb-2">{dataPoint.fullTime || label}</p>
-          {payload.map((entry: any, index: number) => (
-            <p key={index} style={{ color: entry.color }} className="text-sm">
-              {entry.dataKey === 'yesPrice' ? 'YES' : 'NO'}: {entry.value.toFixed(3)}
-            </p>
-          ))}
+        <div className="bg-background border border-border rounded-lg p-3 shadow-lg text-sm">
+          <p className="font-medium mb-1">{candle.fullTime}</p>
+          <p>O {candle.open.toFixed(3)} H {candle.high.toFixed(3)} L {candle.low.toFixed(3)} C {candle.close.toFixed(3)}</p>
+          <p className="text-muted-foreground">
+            Volume {MarketCalculations.formatNumber(candle.volume)} ({candle.trades} trade{candle.trades === 1 ? '' : 's'})
+          </p>
         </div>
       );
     }
@@ -170,54 +451,183 @@ const MarketChart: React.FC<MarketChartProps> = ({ market }) => {
             </div>
           </div>
         </CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1">
+            {(['line', 'candles'] as ChartMode[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={mode === option ? 'default' : 'outline'}
+                onClick={() => setMode(option)}
+              >
+                {option === 'line' ? 'Line' : 'Candles'}
+              </Button>
+            ))}
+          </div>
+          {mode === 'line' && userMarkers.length > 0 && (
+            <Button
+              size="sm"
+              variant={showMyTrades ? 'secondary' : 'ghost'}
+              onClick={() => setShowMyTrades(!showMyTrades)}
+            >
+              <User className="h-4 w-4 mr-1" />
+              My trades
+            </Button>
+          )}
+          {mode === 'line' && (
+            <div className="flex gap-1">
+              {CHART_RANGE_PRESETS.map((option) => (
+                <Button
+                  key={option.value}
+                  size="sm"
+                  variant={rangePreset === option.value ? 'secondary' : 'ghost'}
+                  onClick={() => handleRangePreset(option.value)}
+                  disabled={!clock}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          {hasOlderHistory && (
+            <Button size="sm" variant="ghost" onClick={() => loadOlderMarketHistory()} disabled={isLoadingOlderHistory}>
+              {isLoadingOlderHistory
+                ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                : <History className="h-4 w-4 mr-1" />}
+              Load earlier
+            </Button>
+          )}
+          {!historyRangeSupported && (
+            <span className="text-xs text-muted-foreground">Earlier history is only served by the mock RPC</span>
+          )}
+          {mode === 'candles' && (
+            <>
+              <div className="flex gap-1">
+                {CANDLE_INTERVALS.map((option) => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={candleInterval === option.value ? 'secondary' : 'ghost'}
+                    onClick={() => setCandleInterval(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-1 ml-auto">
+                <Button size="sm" variant={candleSide === 1 ? 'secondary' : 'ghost'} onClick={() => setCandleSide(1)}>
+                  YES
+                </Button>
+                <Button size="sm" variant={candleSide === 0 ? 'secondary' : 'ghost'} onClick={() => setCandleSide(0)}>
+                  NO
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
-        <div className="h-80">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={transformedChartData}>
-              <defs>
-                <linearGradient id="yesGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#22c55e" stopOpacity={0.8}/>
-                  <stop offset="95%" stopColor="#22c55e" stopOpacity={0.1}/>
-                </linearGradient>
-                <linearGradient id="noGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#ef4444" stopOpacity={0.8}/>
-                  <stop offset="95%" stopColor="#ef4444" stopOpacity={0.1}/>
-                </linearGradient>
-              </defs>
-              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
-              <XAxis 
-                dataKey="time" 
-                stroke="#6b7280"
-                fontSize={12}
-                interval="preserveStartEnd"
-              />
-              <YAxis 
-                domain={[0, 2]}
-                stroke="#6b7280"
-                fontSize={12}
-                tickFormatter={(value) => value.toFixed(2)}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              <Area
-                type="monotone"
-                dataKey="yesPrice"
-                stroke="#22c55e"
-                fillOpacity={1}
-                fill="url(#yesGradient)"
-                strokeWidth={2}
-              />
-              <Area
-                type="monotone"
-                dataKey="noPrice"
-                stroke="#ef4444"
-                fillOpacity={1}
-                fill="url(#noGradient)"
-                strokeWidth={2}
-              />
-            </AreaChart>
-          </ResponsiveContainer>
-        </div>
+        {mode === 'candles' ? (
+          <div className="space-y-1">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={candles} syncId="market-candles">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
+                  <XAxis dataKey="label" stroke="#6b7280" fontSize={12} interval="preserveStartEnd" hide />
+                  <YAxis
+                    domain={priceDomain}
+                    stroke="#6b7280"
+                    fontSize={12}
+                    tickFormatter={(value: number) => value.toFixed(2)}
+                  />
+                  <Tooltip content={<CandleTooltip />} />
+                  <Bar dataKey={(candle: Candle) => [candle.low, candle.high]} shape={<CandleShape />} isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-20">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={candles} syncId="market-candles">
+                  <XAxis dataKey="label" stroke="#6b7280" fontSize={12} interval="preserveStartEnd" />
+                  <YAxis stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => MarketCalculations.formatNumber(value)} />
+                  <Tooltip content={<CandleTooltip />} />
+                  <Bar dataKey="buyVolume" stackId="volume" fill="#22c55e" opacity={0.7} isAnimationActive={false} />
+                  <Bar dataKey="sellVolume" stackId="volume" fill="#ef4444" opacity={0.7} isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ) : (
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={transformedChartData}
+                onMouseMove={(state: CategoricalChartState) => setHoverPrice(hoveredYesPrice(state))}
+                onMouseLeave={() => setHoverPrice(null)}
+              >
+                <defs>
+                  <linearGradient id="yesGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#22c55e" stopOpacity={0.8}/>
+                    <stop offset="95%" stopColor="#22c55e" stopOpacity={0.1}/>
+                  </linearGradient>
+                  <linearGradient id="noGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#ef4444" stopOpacity={0.8}/>
+                    <stop offset="95%" stopColor="#ef4444" stopOpacity={0.1}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
+                <XAxis 
+                  dataKey="time" 
+                  stroke="#6b7280"
+                  fontSize={12}
+                  interval="preserveStartEnd"
+                />
+                <YAxis 
+                  domain={priceDomain}
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickFormatter={(value: number) => value.toFixed(2)}
+                />
+                <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#6b7280', strokeDasharray: '3 3' }} />
+                {hoverPrice !== null && (
+                  <ReferenceLine y={hoverPrice} stroke="#6b7280" strokeDasharray="3 3" ifOverflow="hidden" />
+                )}
+                <Area
+                  type="monotone"
+                  dataKey="yesPrice"
+                  stroke="#22c55e"
+                  fillOpacity={1}
+                  fill="url(#yesGradient)"
+                  strokeWidth={2}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="noPrice"
+                  stroke="#ef4444"
+                  fillOpacity={1}
+                  fill="url(#noGradient)"
+                  strokeWidth={2}
+                />
+                {showMyTrades && (
+                  <Scatter dataKey="myYesMarker" shape={<TradeMarkerShape side="YES" />} isAnimationActive={false} />
+                )}
+                {showMyTrades && (
+                  <Scatter dataKey="myNoMarker" shape={<TradeMarkerShape side="NO" />} isAnimationActive={false} />
+                )}
+                {transformedChartData.length > 1 && (
+                  <Brush
+                    dataKey="time"
+                    height={24}
+                    stroke="#6b7280"
+                    startIndex={brushStartIndex}
+                    endIndex={brushEndIndex}
+                    onChange={handleBrushChange}
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
 
         <div className="mt-4 grid grid-cols-3 gap-4 text-center">
           <div className="space-y-1">
@@ -0,0 +1,67 @@
+import { Clock } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useRollupClock } from '../contexts/RollupClockContext';
+import { getLiveMarketStatus, getMarketStatusAt, MarketStatus } from '../utils/market-calculations';
+import { Badge } from './ui/badge';
+
+interface MarketCountdownProps {
+  startTime: number;
+  endTime: number;
+  resolutionTime: number;
+  resolved: boolean;
+  counter: number;
+  // Wall-clock time (ms) at which `counter` was read from the server
+  counterObservedAt: number;
+}
+
+const COUNTDOWN_LABELS: Partial<Record<MarketStatus, string>> = {
+  [MarketStatus.WAIT_START]: 'Starts in',
+  [MarketStatus.ACTIVE_TRADING]: 'Trading ends in',
+  [MarketStatus.WAIT_RESOLUTION]: 'Resolves in',
+};
+
+// Status badge and per-second countdown to the market's next phase
+const MarketCountdown: React.FC<MarketCountdownProps> = ({
+  startTime,
+  endTime,
+  resolutionTime,
+  resolved,
+  counter,
+  counterObservedAt
+}) => {
+  const { clock } = useRollupClock();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (resolved) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [resolved]);
+
+  // Fall back to extrapolating from the last poll until the rollup clock is known
+  const status = clock
+    ? getMarketStatusAt(clock, now, startTime, endTime, resolutionTime, resolved)
+    : getLiveMarketStatus(counter, counterObservedAt, now, startTime, endTime, resolutionTime, resolved);
+  const label = COUNTDOWN_LABELS[status.status];
+
+  return (
+    <div className="space-y-2">
+      <Badge
+        variant={resolved ? "secondary" : "default"}
+        className="w-full justify-center"
+      >
+        {status.statusText}
+      </Badge>
+      {label && (
+        <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          <span>{label} {status.timeRemainingText}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketCountdown;
@@ -1,7 +1,8 @@
 import { Clock, TrendingUp, Users, Timer, CheckCircle, AlertCircle, Pause } from 'lucide-react';
 import React, { useEffect, useState } from 'react';
+import { useRollupClock } from '../contexts/RollupClockContext';
 import { MarketData } from '../types/market';
-import { MarketCalculations, MarketStatus } from '../utils/market-calculations';
+import { getMarketStatusAt, MarketCalculations, MarketStatus } from '../utils/market-calculations';
 import { Badge } from './ui/badge';
 import { Card } from './ui/card';
 import sanityService from '../services/sanityService';
@@ -11,7 +12,8 @@ interface MarketHeaderProps {
 }
 
 const MarketHeader: React.FC<MarketHeaderProps> = ({ market }) => {
-  const [liveTimeRemaining, setLiveTimeRemaining] = useState<string>(market.time_remaining || "Loading...");
+  const { clock } = useRollupClock();
+  const [now, setNow] = useState(() => Date.now());
   const [landingImageUrl, setLandingImageUrl] = useState<string | null>(null);
   const [marketDescription, setMarketDescription] = useState<string | null>(null);
 
@@ -41,50 +43,20 @@ const MarketHeader: React.FC<MarketHeaderProps> = ({ market }) => {
     fetchMarketData();
   }, []);
 
-  // Update time remaining every second for real-time countdown
+  // Tick every second; the countdown is read off the rollup clock so it survives reloads
   useEffect(() => {
-    // If market is resolved or has no time remaining, show static text
-    if (market.resolved || !market.remaining_time || market.remaining_time <= 0) {
-      setLiveTimeRemaining(market.time_remaining || "Market Ended");
+    if (market.resolved) {
       return;
     }
-
-    // Initial time from market data
-    let remainingSeconds = market.remaining_time;
-    setLiveTimeRemaining(market.time_remaining || "Loading...");
-
-    const interval = setInterval(() => {
-      remainingSeconds -= 1;
-      
-      if (remainingSeconds <= 0) {
-        setLiveTimeRemaining("Time Ended");
-        clearInterval(interval);
-        return;
-      }
-
-      // Format time
-      const formatTime = (seconds: number): string => {
-        const days = Math.floor(seconds / 86400);
-        const hours = Math.floor((seconds % 86400) / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        const secs = seconds % 60;
-        
-        if (days > 0) {
-          return `${days}d ${hours}h ${minutes}m`;
-        } else if (hours > 0) {
-          return `${hours}h ${minutes}m`;
-        } else if (minutes > 0) {
-          return `${minutes}m ${secs}s`;
-        } else {
-          return `${secs}s`;
-        }
-      };
-
-      setLiveTimeRemaining(formatTime(remainingSeconds));
-    }, 1000);
-
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [market.remaining_time, market.time_remaining, market.resolved]);
+  }, [market.resolved]);
+
+  const hasSchedule = market.start_time !== undefined && market.end_time !== undefined && market.resolution_time !== undefined;
+  const liveStatus = clock && hasSchedule
+    ? getMarketStatusAt(clock, now, market.start_time!, market.end_time!, market.resolution_time!, market.resolved)
+    : null;
+  const liveTimeRemaining = liveStatus?.timeRemainingText ?? market.time_remaining ?? "Loading...";
 
   // Provide default values to handle undefined market data
   const yesLiquidity = BigInt(market.yes_liquidity || 0);
@@ -240,7 +212,7 @@ const MarketHeader: React.FC<MarketHeaderProps> = ({ market }) => {
           <Clock className="h-6 w-6 text-primary" />
           <div className="font-semibold">
             <span className="text-muted-foreground">
-              {market.market_status_text || "Active"}:
+              {liveStatus?.statusText ?? market.market_status_text ?? "Active"}:
             </span>
             <span className="ml-2 text-foreground">{liveTimeRemaining}</span>
           </div>
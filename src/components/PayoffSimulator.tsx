@@ -0,0 +1,112 @@
+import { Calculator } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { MarketCalculations } from '../utils/market-calculations';
+import { MAX_EXIT_PROBABILITY, MIN_EXIT_PROBABILITY, payoffCurve, PayoffInput, simulatePayoff } from '../utils/payoff';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+
+// The prospective buy plus the shares and pool it applies to
+type PayoffSimulatorProps = PayoffInput;
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const PayoffSimulator: React.FC<PayoffSimulatorProps> = (props) => {
+  const { yesShares, noShares, betType, amount, yesLiquidity, noLiquidity } = props;
+  const currentProbability = MarketCalculations.calculatePrices(yesLiquidity, noLiquidity).yesPrice;
+  const [exitProbability, setExitProbability] = useState(currentProbability);
+
+  const input = useMemo(
+    () => ({ yesShares, noShares, betType, amount, yesLiquidity, noLiquidity }),
+    [yesShares, noShares, betType, amount, yesLiquidity, noLiquidity]
+  );
+  const simulation = useMemo(() => simulatePayoff(input, exitProbability), [input, exitProbability]);
+  const curve = useMemo(() => payoffCurve(input), [input]);
+
+  const rows = [
+    { label: 'Resolves YES', outcome: simulation.ifYes },
+    { label: 'Resolves NO', outcome: simulation.ifNo },
+    { label: `Exit at ${MarketCalculations.formatPrice(simulation.exitProbability)} YES`, outcome: simulation.ifExit },
+  ];
+
+  return (
+    <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
+      <div className="flex items-center gap-2 font-semibold">
+        <Calculator className="h-4 w-4" />
+        Payoff Scenarios
+      </div>
+      <div className="text-sm text-muted-foreground">
+        Position after trade: {simulation.yesShares.toLocaleString()} YES / {simulation.noShares.toLocaleString()} NO
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-normal">Scenario</th>
+            <th className="text-right font-normal">Position pays</th>
+            <th className="text-right font-normal">Trade PnL</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, outcome }) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td className="text-right font-medium">{outcome.positionValue.toFixed(2)}</td>
+              <td className={`text-right font-medium ${outcome.tradePnl >= 0 ? 'text-bull-600' : 'text-bear-600'}`}>
+                {formatSigned(outcome.tradePnl)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-2">
+        <Label className="text-sm text-muted-foreground">
+          Exit probability: {MarketCalculations.formatPrice(exitProbability)} YES
+        </Label>
+        <Slider
+          min={MIN_EXIT_PROBABILITY}
+          max={MAX_EXIT_PROBABILITY}
+          step={0.01}
+          value={[exitProbability]}
+          onValueChange={(values: number[]) => setExitProbability(values[0])}
+        />
+      </div>
+
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={curve}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" opacity={0.5} />
+            <XAxis
+              dataKey="probability"
+              type="number"
+              domain={[0, 1]}
+              stroke="#6b7280"
+              fontSize={12}
+              tickFormatter={(value: number) => MarketCalculations.formatPrice(value)}
+            />
+            <YAxis stroke="#6b7280" fontSize={12} tickFormatter={(value: number) => MarketCalculations.formatNumber(value)} />
+            <Tooltip
+              formatter={(value: number, name: string) => [value.toFixed(2), name === 'withTrade' ? 'With trade' : 'Without trade']}
+              labelFormatter={(value: number) => `Exit at ${MarketCalculations.formatPrice(value)} YES`}
+            />
+            <ReferenceLine x={exitProbability} stroke="#6b7280" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="withoutTrade" stroke="#9ca3af" dot={false} strokeWidth={1} />
+            <Line
+              type="monotone"
+              dataKey="withTrade"
+              stroke={betType === 1 ? '#22c55e' : '#ef4444'}
+              dot={false}
+              strokeWidth={2}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Net tokens from selling everything at each YES probability, after fees; the trade's cost is subtracted.
+      </div>
+    </div>
+  );
+};
+
+export default PayoffSimulator;
@@ -0,0 +1,150 @@
+import { Activity, CheckCircle2, HelpCircle, Loader2, X, XCircle } from 'lucide-react';
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useTransactions } from '../contexts/TransactionContext';
+import { Transaction } from '../types/market';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+
+const describeTransaction = (transaction: Transaction): string => {
+  const side = transaction.betType === 1 ? 'YES' : 'NO';
+  switch (transaction.type) {
+    case 'BUY':
+      return `Buy ${side} for ${transaction.amount.toLocaleString()} tokens`;
+    case 'SELL':
+      return `Sell ${transaction.amount.toLocaleString()} ${side} shares`;
+    case 'CLAIM':
+      return 'Claim winnings';
+    case 'WITHDRAW':
+      return `Withdraw ${transaction.amount.toLocaleString()} tokens`;
+    case 'DEPOSIT':
+      return `Deposit ${transaction.amount.toLocaleString()} tokens`;
+  }
+};
+
+const StatusBadge: React.FC<{ status: Transaction['status'] }> = ({ status }) => {
+  if (status === 'PENDING') {
+    return (
+      <Badge variant="outline" className="border-yellow-500 text-yellow-600 gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Pending
+      </Badge>
+    );
+  }
+  if (status === 'COMPLETED') {
+    return (
+      <Badge variant="outline" className="border-green-500 text-green-600 gap-1">
+        <CheckCircle2 className="h-3 w-3" />
+        Confirmed
+      </Badge>
+    );
+  }
+  if (status === 'UNCONFIRMED') {
+    return (
+      <Badge variant="outline" className="border-muted-foreground text-muted-foreground gap-1">
+        <HelpCircle className="h-3 w-3" />
+        Unconfirmed
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="border-red-500 text-red-600 gap-1">
+      <XCircle className="h-3 w-3" />
+      Failed
+    </Badge>
+  );
+};
+
+const PendingActivityDrawer: React.FC = () => {
+  const { transactions, pendingCount, dismissTransaction, clearSettled } = useTransactions();
+  const hasSettled = transactions.some((transaction) => transaction.status !== 'PENDING');
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="text-xs sm:text-sm gap-2">
+          {pendingCount > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Activity className="h-4 w-4" />
+          )}
+          Activity
+          {pendingCount > 0 && (
+            <Badge variant="secondary" className="px-1.5">{pendingCount}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Activity</SheetTitle>
+          <SheetDescription>
+            Submissions stay pending until the player's nonce and position reflect them.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-12rem)] mt-4 pr-3">
+          {transactions.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              No transactions submitted yet
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {transactions.map((transaction) => (
+                <div key={transaction.id} className="p-3 bg-muted/50 rounded-lg space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">{describeTransaction(transaction)}</span>
+                    <StatusBadge status={transaction.status} />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {transaction.timestamp.toLocaleString()}
+                      {transaction.marketId && (
+                        <>
+                          {' · '}
+                          <Link to={`/${transaction.marketId}`} className="underline">
+                            Market #{transaction.marketId}
+                          </Link>
+                        </>
+                      )}
+                    </span>
+                    {transaction.status !== 'PENDING' && (
+                      <button
+                        type="button"
+                        onClick={() => dismissTransaction(transaction.id)}
+                        className="hover:text-foreground"
+                        aria-label="Dismiss"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                  {transaction.status === 'COMPLETED' && transaction.shares !== undefined && (
+                    <div className="text-xs text-muted-foreground">
+                      {transaction.shares.toLocaleString()} shares
+                      {transaction.price > 0 && ` at ${transaction.price.toFixed(3)}`}
+                    </div>
+                  )}
+                  {transaction.error && (
+                    <div className={`text-xs ${transaction.status === 'FAILED' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                      {transaction.error}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {hasSettled && (
+          <Button variant="outline" size="sm" className="w-full mt-4" onClick={clearSettled}>
+            Clear finished
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PendingActivityDrawer;
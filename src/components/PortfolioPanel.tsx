@@ -1,8 +1,9 @@
 import { Award, DollarSign, Minus, Plus, TrendingUp, Wallet } from 'lucide-react';
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useToast } from '../hooks/use-toast';
-import { MarketData, PlayerData } from '../types/market';
+import { MarketData, PlayerData, UserTransactionEntry } from '../types/market';
 import { MarketCalculations } from '../utils/market-calculations';
+import { calculatePositionPnl } from '../utils/pnl';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -15,6 +16,8 @@ import { Separator } from './ui/separator';
 interface PortfolioPanelProps {
   market: MarketData;
   playerData: PlayerData;
+  // Player's trades in this market, used to derive cost basis and PnL
+  history?: UserTransactionEntry[];
   onClaim: () => void;
   onWithdraw: (amount: number) => void;
   onDeposit: (amount: number) => void;
@@ -23,6 +26,7 @@ interface PortfolioPanelProps {
 const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ 
   market, 
   playerData, 
+  history = [],
   onClaim, 
   onWithdraw,
   onDeposit 
@@ -55,6 +59,12 @@ const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
   const potentialNoWinnings = market.resolved && !market.outcome ? noShares : 0;
   const totalPotentialWinnings = potentialYesWinnings + potentialNoWinnings;
 
+  const pnl = useMemo(
+    () => calculatePositionPnl(market, yesShares, noShares, history),
+    [market, yesShares, noShares, history]
+  );
+  const totalRealizedPnl = pnl.YES.realizedPnl + pnl.NO.realizedPnl;
+
   // Position breakdown
   const positions = [
     {
@@ -62,17 +72,22 @@ const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
       shares: yesShares,
       currentValue: yesValue,
       currentPrice: yesShares > 0 ? yesValue / yesShares : 0,
-      color: 'bull'
+      color: 'bull',
+      pnl: pnl.YES
     },
     {
       type: 'NO' as const,
       shares: noShares,
       currentValue: noValue,
       currentPrice: noShares > 0 ? noValue / noShares : 0,
-      color: 'bear'
+      color: 'bear',
+      pnl: pnl.NO
     }
   ];
 
+  const formatPnl = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+  const pnlColor = (value: number) => value >= 0 ? 'text-bull-600' : 'text-bear-600';
+
   const handleClaimWinnings = async () => {
     if (!market.resolved) {
       toast({
@@ -204,8 +219,8 @@ const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
             Current Positions
           </h3>
           
-          {positions.map(({ type, shares, currentValue, currentPrice, color }) => (
-            shares > 0 && (
+          {positions.map(({ type, shares, currentValue, currentPrice, color, pnl: sidePnl }) => (
+            shares > 0 ? (
               <div key={type} className="space-y-2">
                 <div className="flex justify-between items-center">
                   <div className="flex items-center gap-2">
@@ -228,6 +243,43 @@ const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
                   value={(currentValue / totalPortfolioValue) * 100} 
                   className="h-2"
                 />
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  <span className="text-muted-foreground">Avg. entry</span>
+                  <span className="text-right">{sidePnl.averageEntryPrice.toFixed(3)}</span>
+                  <span className="text-muted-foreground">Cost basis</span>
+                  <span className="text-right">{sidePnl.costBasis.toFixed(2)}</span>
+                  <span className="text-muted-foreground">Unrealized PnL</span>
+                  <span className={`text-right ${pnlColor(sidePnl.unrealizedPnl)}`}>{formatPnl(sidePnl.unrealizedPnl)}</span>
+                  <span className="text-muted-foreground">Realized PnL</span>
+                  <span className={`text-right ${pnlColor(sidePnl.realizedPnl)}`}>{formatPnl(sidePnl.realizedPnl)}</span>
+                  {!market.resolved && (
+                    <>
+                      <span className="text-muted-foreground">If {type} wins</span>
+                      <span className={`text-right ${pnlColor(sidePnl.pnlIfWins)}`}>{formatPnl(sidePnl.pnlIfWins)}</span>
+                      <span className="text-muted-foreground">If {type} loses</span>
+                      <span className={`text-right ${pnlColor(sidePnl.pnlIfLoses)}`}>{formatPnl(sidePnl.pnlIfLoses)}</span>
+                    </>
+                  )}
+                </div>
+                {!sidePnl.historyComplete && (
+                  <p className="text-xs text-muted-foreground">
+                    Some trades are older than the loaded history; cost basis is estimated from recent trades.
+                  </p>
+                )}
+              </div>
+            ) : sidePnl.realizedPnl !== 0 && (
+              // Fully closed sides still carry the profit or loss their sells realized
+              <div key={type} className="flex justify-between items-center text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={`${color === 'bull' ? 'border-bull-500 text-bull-600' : 'border-bear-500 text-bear-600'}`}
+                  >
+                    {type}
+                  </Badge>
+                  <span className="text-muted-foreground">Closed</span>
+                </div>
+                <span className={pnlColor(sidePnl.realizedPnl)}>Realized {formatPnl(sidePnl.realizedPnl)}</span>
               </div>
             )
           ))}
@@ -237,6 +289,13 @@ const PortfolioPanel: React.FC<PortfolioPanelProps> = ({
               No active positions
             </p>
           )}
+
+          {totalRealizedPnl !== 0 && (
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Total realized PnL</span>
+              <span className={`font-semibold ${pnlColor(totalRealizedPnl)}`}>{formatPnl(totalRealizedPnl)} tokens</span>
+            </div>
+          )}
         </div>
 
         {/* Market Resolution & Claims */}
@@ -1,8 +1,18 @@
-import { AlertTriangle, TrendingUp, Clock } from 'lucide-react';
-import React, { useState } from 'react';
+import { AlertTriangle, TrendingUp, Clock, Settings2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { useSlippageTolerance } from '../hooks/use-slippage-tolerance';
 import { useToast } from '../hooks/use-toast';
+import { MarketError, marketErrorToast } from '../services/marketErrors';
 import { MarketData, PlayerData } from '../types/market';
+import { BUY_MODES, BuyMode, solveBuyForShares, solveBuyForTargetPrice, solveMaxBuy } from '../utils/buy-solver';
 import { MarketCalculations, MarketStatus } from '../utils/market-calculations';
+import {
+  createTradeProtection,
+  MAX_SLIPPAGE_TOLERANCE,
+  SLIPPAGE_PRESETS,
+  TradeProtection
+} from '../utils/slippage';
+import PayoffSimulator from './PayoffSimulator';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
@@ -14,15 +24,19 @@ import { Alert, AlertDescription } from './ui/alert';
 interface TradingPanelProps {
   market: MarketData;
   playerData: PlayerData;
-  onTrade: (type: 'BUY' | 'SELL', betType: 0 | 1, amount: number) => void;
+  onTrade: (type: 'BUY' | 'SELL', betType: 0 | 1, amount: number, protection?: TradeProtection) => Promise<void>;
 }
 
 const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade }) => {
   const { toast } = useToast();
   const [buyAmount, setBuyAmount] = useState('');
+  const [buyMode, setBuyMode] = useState<BuyMode>('amount');
+  const [buyTarget, setBuyTarget] = useState('');
   const [sellShares, setSellShares] = useState('');
   const [selectedPosition, setSelectedPosition] = useState<'YES' | 'NO'>('YES');
   const [isLoading, setIsLoading] = useState(false);
+  const [slippageTolerance, setSlippageTolerance] = useSlippageTolerance();
+  const [customTolerance, setCustomTolerance] = useState('');
 
   // Check market status for trading eligibility
   const marketStatus = market.market_status as MarketStatus;
@@ -41,10 +55,26 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
 
   const prices = MarketCalculations.calculatePrices(yesLiquidity, noLiquidity);
   
+  const betType = selectedPosition === 'YES' ? 1 : 0;
+
+  // Amount-based modes solve the AMM backwards for the tokens to spend
+  const buyTargetNum = parseFloat(buyTarget) || 0;
+  const solvedBuy = useMemo(() => {
+    switch (buyMode) {
+      case 'targetPrice':
+        return buyTargetNum > 0 ? solveBuyForTargetPrice(betType, buyTargetNum / 100, yesLiquidity, noLiquidity) : null;
+      case 'shares':
+        return buyTargetNum > 0 ? solveBuyForShares(betType, buyTargetNum, yesLiquidity, noLiquidity) : null;
+      case 'max':
+        return solveMaxBuy(betType, balance, slippageTolerance, yesLiquidity, noLiquidity);
+      default:
+        return null;
+    }
+  }, [buyMode, buyTargetNum, betType, yesLiquidity, noLiquidity, balance, slippageTolerance]);
+
   // Calculate trading preview
-  const buyAmountNum = parseFloat(buyAmount) || 0;
+  const buyAmountNum = buyMode === 'amount' ? parseFloat(buyAmount) || 0 : solvedBuy?.amount ?? 0;
   const sellSharesNum = parseFloat(sellShares) || 0;
-  const betType = selectedPosition === 'YES' ? 1 : 0;
 
   // Calculate fees first (1% of total amount)
   const fees = buyAmountNum > 0 ? MarketCalculations.calculateFees(buyAmountNum) : 0;
@@ -67,31 +97,37 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
   const buyImpact = amountAfterFees > 0 ? 
     MarketCalculations.calculateMarketImpact(betType, amountAfterFees, yesLiquidity, noLiquidity) : null;
 
+  // Minimum outputs accepted when the trade is re-quoted right before submission
+  const buyProtection = createTradeProtection(sharesReceived, slippageTolerance);
+  const sellProtection = createTradeProtection(sellAmountAfterFees, slippageTolerance);
+  const tolerancePercent = (slippageTolerance * 100).toFixed(1);
+
+  const handleCustomToleranceChange = (value: string) => {
+    setCustomTolerance(value);
+    const percent = parseFloat(value);
+    if (!isNaN(percent) && percent >= 0 && percent <= MAX_SLIPPAGE_TOLERANCE * 100) {
+      setSlippageTolerance(percent / 100);
+    }
+  };
+
   const handleBuy = async () => {
-    if (!buyAmount || buyAmountNum <= 0) {
-      toast({
-        title: "Invalid Amount",
-        description: "Please enter a valid amount to buy",
-        variant: "destructive"
-      });
+    if (buyAmountNum <= 0) {
+      toast(marketErrorToast(MarketError.INVALID_AMOUNT, "Invalid Amount", "The amount to spend must be greater than 0."));
       return;
     }
 
     if (buyAmountNum > balance) {
-      toast({
-        title: "Insufficient Balance",
-        description: "You don't have enough balance for this trade",
-        variant: "destructive"
-      });
+      toast(marketErrorToast(MarketError.INSUFFICIENT_BALANCE, "Insufficient Balance", "You don't have enough balance for this trade."));
       return;
     }
 
     if (amountAfterFees <= 0) {
-      toast({
-        title: "Amount Too Small",
-        description: "Amount after fees must be greater than 0",
-        variant: "destructive"
-      });
+      toast(marketErrorToast(MarketError.INVALID_AMOUNT, "Amount Too Small", "Amount after fees must be greater than 0."));
+      return;
+    }
+
+    if (buyProtection.minimum <= 0) {
+      toast(marketErrorToast(MarketError.INVALID_AMOUNT, "Amount Too Small", "This amount would not buy any shares."));
       return;
     }
 
@@ -99,18 +135,15 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
     try {
       // Pass the total amount (including fees) to the backend
       // The backend will handle fee deduction internally
-      await onTrade('BUY', betType, buyAmountNum);
+      await onTrade('BUY', betType, buyAmountNum, buyProtection);
       setBuyAmount('');
+      setBuyTarget('');
       toast({
         title: "Trade Submitted",
         description: `Buying ${selectedPosition} shares for ${buyAmountNum} tokens (${amountAfterFees.toFixed(2)} + ${fees.toFixed(2)} fee)`,
       });
-    } catch (error) {
-      toast({
-        title: "Trade Failed",
-        description: "Failed to submit trade. Please try again.",
-        variant: "destructive"
-      });
+    } catch {
+      // The failure was already reported by the market context; keep the order for review
     } finally {
       setIsLoading(false);
     }
@@ -118,38 +151,31 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
 
   const handleSell = async () => {
     if (!sellShares || sellSharesNum <= 0) {
-      toast({
-        title: "Invalid Shares",
-        description: "Please enter a valid number of shares to sell",
-        variant: "destructive"
-      });
+      toast(marketErrorToast(MarketError.INVALID_AMOUNT, "Invalid Shares", "The number of shares to sell must be greater than 0."));
       return;
     }
 
     const availableShares = selectedPosition === 'YES' ? yesShares : noShares;
     if (sellSharesNum > availableShares) {
-      toast({
-        title: "Insufficient Shares",
-        description: `You only have ${availableShares} ${selectedPosition} shares`,
-        variant: "destructive"
-      });
+      toast(marketErrorToast(MarketError.INSUFFICIENT_SHARES, "Insufficient Shares", `You only have ${availableShares} ${selectedPosition} shares.`));
+      return;
+    }
+
+    if (sellProtection.minimum <= 0) {
+      toast(marketErrorToast(MarketError.INVALID_AMOUNT, "Amount Too Small", "Selling this many shares would not return any tokens."));
       return;
     }
 
     setIsLoading(true);
     try {
-      await onTrade('SELL', betType, sellSharesNum);
+      await onTrade('SELL', betType, sellSharesNum, sellProtection);
       setSellShares('');
       toast({
         title: "Sell Order Submitted",
         description: `Selling ${sellSharesNum} ${selectedPosition} shares for ${sellAmountAfterFees.toFixed(2)} tokens (${sellAmount.toFixed(2)} - ${sellFees.toFixed(2)} fee)`,
       });
-    } catch (error) {
-      toast({
-        title: "Sell Failed",
-        description: "Failed to submit sell order. Please try again.",
-        variant: "destructive"
-      });
+    } catch {
+      // The failure was already reported by the market context; keep the order for review
     } finally {
       setIsLoading(false);
     }
@@ -187,6 +213,39 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
           </Alert>
         )}
 
+        {/* Slippage Tolerance */}
+        <div className="mb-4 space-y-2">
+          <Label className="text-sm text-muted-foreground flex items-center gap-1">
+            <Settings2 className="h-4 w-4" />
+            Slippage Tolerance
+          </Label>
+          <div className="grid grid-cols-4 gap-2">
+            {SLIPPAGE_PRESETS.map((preset) => (
+              <Button
+                key={preset}
+                variant={slippageTolerance === preset ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setCustomTolerance('');
+                  setSlippageTolerance(preset);
+                }}
+              >
+                {(preset * 100).toFixed(1)}%
+              </Button>
+            ))}
+            <Input
+              type="number"
+              min={0}
+              max={MAX_SLIPPAGE_TOLERANCE * 100}
+              step={0.1}
+              placeholder="Custom %"
+              value={customTolerance}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleCustomToleranceChange(e.target.value)}
+              className="h-9"
+            />
+          </div>
+        </div>
+
         <Tabs defaultValue="buy" className="space-y-4">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="buy" disabled={!canTrade}>Buy Shares</TabsTrigger>
@@ -219,40 +278,108 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
               Note: Current price is theoretical. Actual trading price may vary due to slippage.
             </div>
 
-            {/* Quick Buy Amounts */}
-            <div>
-              <Label className="text-sm text-muted-foreground mb-2 block">Quick Amounts</Label>
-              <div className="grid grid-cols-4 gap-2">
-                {quickBuyAmounts.map((amount) => (
-                  <Button
-                    key={amount}
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setBuyAmount(amount.toString())}
-                    disabled={!canTrade || amount > balance}
-                  >
-                    {amount}
-                  </Button>
-                ))}
-              </div>
+            {/* Buy Mode */}
+            <div className="grid grid-cols-4 gap-2">
+              {BUY_MODES.map((mode) => (
+                <Button
+                  key={mode.value}
+                  variant={buyMode === mode.value ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => {
+                    setBuyMode(mode.value);
+                    setBuyTarget('');
+                  }}
+                  disabled={!canTrade}
+                >
+                  {mode.label}
+                </Button>
+              ))}
             </div>
 
-            {/* Amount Input */}
-            <div className="space-y-2">
-              <Label htmlFor="buyAmount">Amount to Spend</Label>
-              <Input
-                id="buyAmount"
-                type="number"
-                placeholder={canTrade ? "Enter amount" : "Trading not available"}
-                value={buyAmount}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBuyAmount(e.target.value)}
-                className="text-lg"
-                disabled={!canTrade}
-              />
+            {buyMode === 'amount' && (
+              <>
+                {/* Quick Buy Amounts */}
+                <div>
+                  <Label className="text-sm text-muted-foreground mb-2 block">Quick Amounts</Label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {quickBuyAmounts.map((amount) => (
+                      <Button
+                        key={amount}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setBuyAmount(amount.toString())}
+                        disabled={!canTrade || amount > balance}
+                      >
+                        {amount}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Amount Input */}
+                <div className="space-y-2">
+                  <Label htmlFor="buyAmount">Amount to Spend</Label>
+                  <Input
+                    id="buyAmount"
+                    type="number"
+                    placeholder={canTrade ? "Enter amount" : "Trading not available"}
+                    value={buyAmount}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBuyAmount(e.target.value)}
+                    className="text-lg"
+                    disabled={!canTrade}
+                  />
+                  <div className="text-sm text-muted-foreground">
+                    Balance: {balance.toLocaleString()} tokens
+                  </div>
+                </div>
+              </>
+            )}
+
+            {(buyMode === 'targetPrice' || buyMode === 'shares') && (
+              <div className="space-y-2">
+                <Label htmlFor="buyTarget">
+                  {buyMode === 'targetPrice' ? `Target ${selectedPosition} Price (%)` : `${selectedPosition} Shares to Buy`}
+                </Label>
+                <Input
+                  id="buyTarget"
+                  type="number"
+                  placeholder={buyMode === 'targetPrice'
+                    ? `Currently ${((betType === 1 ? prices.yesPrice : prices.noPrice) * 100).toFixed(1)}`
+                    : "Enter shares"}
+                  value={buyTarget}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBuyTarget(e.target.value)}
+                  className="text-lg"
+                  disabled={!canTrade}
+                />
+                {buyTargetNum > 0 && !solvedBuy && (
+                  <div className="text-sm text-amber-600">
+                    {buyMode === 'targetPrice'
+                      ? `${selectedPosition} is already at or above this price, or the target is out of range.`
+                      : "The pool cannot supply that many shares."}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {buyMode === 'max' && !solvedBuy && (
+              <div className="text-sm text-amber-600">
+                No buy fits your balance within {tolerancePercent}% price impact.
+              </div>
+            )}
+
+            {buyMode !== 'amount' && solvedBuy && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Solved amount:</span>
+                <span className="font-medium">
+                  {solvedBuy.amount.toLocaleString()} tokens → {selectedPosition} at {MarketCalculations.formatPrice(solvedBuy.priceAfter)}
+                </span>
+              </div>
+            )}
+            {buyMode !== 'amount' && (
               <div className="text-sm text-muted-foreground">
                 Balance: {balance.toLocaleString()} tokens
               </div>
-            </div>
+            )}
 
             {/* Trade Preview */}
             {buyAmountNum > 0 && (
@@ -265,6 +392,10 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
                   <span>Shares Received:</span>
                   <span className="font-medium">{sharesReceived.toFixed(2)}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Minimum Shares ({tolerancePercent}% slippage):</span>
+                  <span className="font-medium">{buyProtection.minimum}</span>
+                </div>
                 <div className="flex justify-between">
                   <span>Effective Price:</span>
                   <span className="font-medium">
@@ -291,9 +422,20 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
               </div>
             )}
 
+            {buyAmountNum > 0 && sharesReceived > 0 && (
+              <PayoffSimulator
+                yesShares={yesShares}
+                noShares={noShares}
+                betType={betType}
+                amount={buyAmountNum}
+                yesLiquidity={yesLiquidity}
+                noLiquidity={noLiquidity}
+              />
+            )}
+
             <Button 
               onClick={handleBuy}
-              disabled={!canTrade || !buyAmount || buyAmountNum <= 0 || buyAmountNum > balance || amountAfterFees <= 0 || isLoading}
+              disabled={!canTrade || buyAmountNum <= 0 || buyAmountNum > balance || amountAfterFees <= 0 || isLoading}
               className="w-full price-gradient-yes hover:opacity-90"
             >
               {isLoading ? "Processing..." : 
@@ -391,6 +533,10 @@ const TradingPanel: React.FC<TradingPanelProps> = ({ market, playerData, onTrade
                   <span>Amount Received:</span>
                   <span>{sellAmountAfterFees.toFixed(2)} tokens</span>
                 </div>
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Minimum Received ({tolerancePercent}% slippage):</span>
+                  <span>{sellProtection.minimum} tokens</span>
+                </div>
               </div>
             )}
 
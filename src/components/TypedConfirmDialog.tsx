@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+interface TypedConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: React.ReactNode;
+  // The exact text the admin has to type before the action unlocks
+  confirmText: string;
+  actionLabel: string;
+  actionClassName?: string;
+  onConfirm: () => void;
+}
+
+// Guards irreversible admin actions behind typing a confirmation word
+const TypedConfirmDialog: React.FC<TypedConfirmDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmText,
+  actionLabel,
+  actionClassName,
+  onConfirm
+}) => {
+  const [typed, setTyped] = useState('');
+  const confirmed = typed.trim() === confirmText;
+
+  useEffect(() => {
+    if (!open) {
+      setTyped('');
+    }
+  }, [open]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="typedConfirmation">
+            Type <span className="font-mono font-semibold">{confirmText}</span> to confirm
+          </Label>
+          <Input
+            id="typedConfirmation"
+            value={typed}
+            autoComplete="off"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTyped(e.target.value)}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm} disabled={!confirmed} className={actionClassName}>
+            {actionLabel}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default TypedConfirmDialog;
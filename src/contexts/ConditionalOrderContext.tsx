@@ -0,0 +1,199 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useSlippageTolerance } from '../hooks/use-slippage-tolerance';
+import { useToast } from '../hooks/use-toast';
+import { describeMarketError } from '../services/marketErrors';
+import { ConditionalOrder, ConditionalOrderLogEntry } from '../types/market';
+import {
+  appendOrderLog,
+  createConditionalOrder,
+  describeOrder,
+  deserializeOrderBook,
+  isOrderTriggered,
+  NewConditionalOrder,
+  OrderBook,
+  orderBookStorageKey,
+  ORDER_KINDS,
+  resolveOrderAmount,
+  serializeOrderBook
+} from '../utils/conditional-orders';
+import { MarketCalculations, MarketStatus } from '../utils/market-calculations';
+import { createTradeProtection, quoteBuy, quoteSell } from '../utils/slippage';
+import { useMarket } from './MarketContext';
+
+interface ConditionalOrderContextType {
+  orders: ConditionalOrder[];
+  log: ConditionalOrderLogEntry[];
+  placeOrder: (input: Omit<NewConditionalOrder, 'marketId'>) => void;
+  cancelOrder: (id: string) => void;
+  clearClosedOrders: () => void;
+}
+
+const ConditionalOrderContext = createContext<ConditionalOrderContextType | undefined>(undefined);
+
+export const useConditionalOrders = () => {
+  const context = useContext(ConditionalOrderContext);
+  if (!context) {
+    throw new Error('useConditionalOrders must be used within a ConditionalOrderProvider');
+  }
+  return context;
+};
+
+interface ConditionalOrderProviderProps {
+  children: ReactNode;
+}
+
+const loadStoredBook = (storageKey: string | null): OrderBook => {
+  if (!storageKey) {
+    return { orders: [], log: [] };
+  }
+  try {
+    return deserializeOrderBook(window.localStorage.getItem(storageKey));
+  } catch {
+    return { orders: [], log: [] };
+  }
+};
+
+// Watches the connected player's orders for the current market. Orders only fire while this
+// page is open: they are checked whenever refreshData brings in new market and player state.
+export const ConditionalOrderProvider: React.FC<ConditionalOrderProviderProps> = ({ children }) => {
+  const { marketId, playerId, marketData, playerData, placeBet, sellShares } = useMarket();
+  const { toast } = useToast();
+  const [slippageTolerance] = useSlippageTolerance();
+  const storageKey = playerId && marketId ? orderBookStorageKey(playerId, marketId) : null;
+  const [book, setBook] = useState<OrderBook>(() => loadStoredBook(storageKey));
+  const [loadedKey, setLoadedKey] = useState(storageKey);
+  const executingRef = useRef(false);
+  // Latest trade callbacks and settings, so the evaluation below only re-runs on new state
+  const tradeRef = useRef({ placeBet, sellShares, slippageTolerance, toast });
+  useEffect(() => {
+    tradeRef.current = { placeBet, sellShares, slippageTolerance, toast };
+  });
+
+  // Switch books when the player or market changes
+  useEffect(() => {
+    if (storageKey !== loadedKey) {
+      setBook(loadStoredBook(storageKey));
+      setLoadedKey(storageKey);
+    }
+  }, [storageKey, loadedKey]);
+
+  useEffect(() => {
+    if (!loadedKey) return;
+    try {
+      window.localStorage.setItem(loadedKey, serializeOrderBook(book));
+    } catch (error) {
+      console.warn('Failed to persist conditional orders:', error);
+    }
+  }, [book, loadedKey]);
+
+  const updateOrder = useCallback((id: string, changes: Partial<ConditionalOrder>, message: string) => {
+    setBook((prev) => ({
+      orders: prev.orders.map((order) => (order.id === id ? { ...order, ...changes } : order)),
+      log: appendOrderLog(prev.log, id, message),
+    }));
+  }, []);
+
+  const placeOrder = useCallback((input: Omit<NewConditionalOrder, 'marketId'>) => {
+    if (!marketId) return;
+    const order = createConditionalOrder({ ...input, marketId });
+    setBook((prev) => ({
+      orders: [order, ...prev.orders],
+      log: appendOrderLog(prev.log, order.id, `Placed ${describeOrder(order)}`),
+    }));
+  }, [marketId]);
+
+  const cancelOrder = useCallback((id: string) => {
+    setBook((prev) => {
+      const order = prev.orders.find((candidate) => candidate.id === id);
+      if (!order || order.status !== 'OPEN') {
+        return prev;
+      }
+      return {
+        orders: prev.orders.map((candidate) =>
+          candidate.id === id ? { ...candidate, status: 'CANCELLED', settledAt: new Date() } : candidate
+        ),
+        log: appendOrderLog(prev.log, id, `Cancelled ${describeOrder(order)}`),
+      };
+    });
+  }, []);
+
+  const clearClosedOrders = useCallback(() => {
+    setBook((prev) => ({
+      ...prev,
+      orders: prev.orders.filter((order) => order.status === 'OPEN' || order.status === 'SUBMITTING'),
+    }));
+  }, []);
+
+  // Fire at most one triggered order per refresh; the trade's own refresh re-runs this check
+  useEffect(() => {
+    if (!marketId || !marketData || !playerData || executingRef.current) return;
+    // Right after a market switch the book or market state may still be the previous market's
+    if (loadedKey !== storageKey || marketData.market_id !== marketId) return;
+    if (marketData.market_status !== MarketStatus.ACTIVE_TRADING) return;
+
+    const yesLiquidity = BigInt(marketData.yes_liquidity || 0);
+    const noLiquidity = BigInt(marketData.no_liquidity || 0);
+    const order = book.orders.find(
+      (candidate) => candidate.marketId === marketId && isOrderTriggered(candidate, yesLiquidity, noLiquidity)
+    );
+    if (!order) return;
+    const { placeBet, sellShares, slippageTolerance, toast } = tradeRef.current;
+
+    const { action } = ORDER_KINDS[order.kind];
+    const amount = resolveOrderAmount(
+      order,
+      Number(playerData.data.balance),
+      Number(playerData.data.yes_shares),
+      Number(playerData.data.no_shares)
+    );
+    const prices = MarketCalculations.calculatePrices(yesLiquidity, noLiquidity);
+    const price = MarketCalculations.formatPrice(order.side === 1 ? prices.yesPrice : prices.noPrice);
+
+    if (amount <= 0) {
+      updateOrder(
+        order.id,
+        { status: 'FAILED', settledAt: new Date(), error: action === 'BUY' ? 'No balance to spend' : 'No shares to sell' },
+        `Triggered at ${price} but there was nothing to ${action === 'BUY' ? 'spend' : 'sell'}`
+      );
+      return;
+    }
+
+    const expected = action === 'BUY'
+      ? quoteBuy(order.side, amount, yesLiquidity, noLiquidity)
+      : quoteSell(order.side, amount, yesLiquidity, noLiquidity);
+    const protection = createTradeProtection(expected, slippageTolerance);
+
+    executingRef.current = true;
+    updateOrder(order.id, { status: 'SUBMITTING' }, `Triggered at ${price}; submitting ${action === 'BUY' ? `${amount} tokens` : `${amount} shares`}`);
+
+    const submit = action === 'BUY'
+      ? placeBet(order.side, amount.toString(), protection)
+      : sellShares(order.side, amount.toString(), protection);
+    submit
+      .then(() => {
+        updateOrder(order.id, { status: 'FILLED', settledAt: new Date() }, `Filled ${describeOrder(order)}`);
+        toast({ title: 'Order Executed', description: describeOrder(order) });
+      })
+      .catch((error) => {
+        const { message } = describeMarketError(error);
+        updateOrder(order.id, { status: 'FAILED', settledAt: new Date(), error: message }, `Failed: ${message}`);
+      })
+      .finally(() => {
+        executingRef.current = false;
+      });
+  }, [marketId, storageKey, loadedKey, marketData, playerData, book.orders, updateOrder]);
+
+  return (
+    <ConditionalOrderContext.Provider
+      value={{
+        orders: book.orders,
+        log: book.log,
+        placeOrder,
+        cancelOrder,
+        clearClosedOrders
+      }}
+    >
+      {children}
+    </ConditionalOrderContext.Provider>
+  );
+};
@@ -1,12 +1,20 @@
-import { bnToHexLe } from 'delphinus-curves/src/altjubjub';
 import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { LeHexBN } from 'zkwasm-minirollup-rpc';
 import { useToast } from '../hooks/use-toast';
-import PredictionMarketAPI from '../services/api';
-import { ChartDataPoint, MarketData, PlayerData, UserHistoryResponse } from '../types/market';
-import { MarketCalculations } from '../utils/market-calculations';
+import PredictionMarketAPI, { CommandOptions } from '../services/api';
+import { isUnsupportedRouteError, MarketError, marketErrorToast } from '../services/marketErrors';
+import { isMockRpcEnabled } from '../services/mockRpc';
+import { ApiSchemaError, LiquidityHistoryEntry } from '../services/schemas';
+import { ChartDataPoint, MarketData, PlayerData, PositionSnapshot, Transaction, UserHistoryResponse } from '../types/market';
+import { getMarketStatusAt, MarketCalculations } from '../utils/market-calculations';
+import { LIQUIDITY_HISTORY_PAGE_SIZE, mergeHistoryPoints, olderHistoryRange, olderHistoryRanges } from '../utils/liquidity-history';
+import { playerIdFromPubkey, playerKeyLimbs } from '../utils/player-key';
+import { counterToTime, reconcileClock } from '../utils/rollup-clock';
+import { assertWithinSlippage, SlippageExceededError, TradeProtection } from '../utils/slippage';
+import { NewTransaction } from '../utils/transaction-tracker';
 import { getWithdrawTransactionCommandArray, sendTransaction } from '../utils/transaction';
+import { useRollupClock } from './RollupClockContext';
+import { useTransactions } from './TransactionContext';
 import { useWallet } from './WalletContext';
 import { getRpcUrl } from 'zkwasm-minirollup-browser';
 
@@ -32,15 +40,21 @@ interface MarketContextType {
   api: PredictionMarketAPI | null;
   initializeAPI: () => void;
   installPlayer: () => Promise<void>;
-  placeBet: (betType: number, amount: string) => Promise<void>;
-  sellShares: (betType: number, amount: string) => Promise<void>;
+  placeBet: (betType: number, amount: string, protection?: TradeProtection) => Promise<void>;
+  sellShares: (betType: number, amount: string, protection?: TradeProtection) => Promise<void>;
   claimWinnings: () => Promise<void>;
   resolveMarket: (outcome: boolean) => Promise<void>;
   withdrawFees: () => Promise<void>;
   depositFunds: (amount: number) => Promise<void>;
+  depositToPlayer: (playerId: [string, string], amount: number) => Promise<void>;
   withdrawFunds: (amount: number) => Promise<void>;
   refreshData: (isManualRefresh?: boolean) => Promise<void>;
   loadMarketHistory: () => Promise<void>;
+  loadOlderMarketHistory: () => Promise<void>;
+  loadMarketHistoryFrom: (fromCounter: number) => Promise<void>;
+  hasOlderHistory: boolean;
+  historyRangeSupported: boolean;
+  isLoadingOlderHistory: boolean;
   loadUserHistory: () => Promise<void>;
 }
 
@@ -72,6 +86,11 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
   const [marketData, setMarketData] = useState<MarketData | null>(null);
   const [playerData, setPlayerData] = useState<PlayerData | null>(null);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  // Oldest counter whose history has been requested; older pages load on demand
+  const [historyFloor, setHistoryFloor] = useState<number | null>(null);
+  const [isLoadingOlderHistory, setIsLoadingOlderHistory] = useState(false);
+  // Only the mock RPC serves the history range route; also cleared if a server rejects it
+  const [historyRangeSupported, setHistoryRangeSupported] = useState(isMockRpcEnabled);
   const [userHistory, setUserHistory] = useState<UserHistoryResponse | null>(null);
   const [globalState, setGlobalState] = useState<GlobalState | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -88,6 +107,8 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
   
 
   const { toast } = useToast();
+  const { trackTransaction, failTransaction, reconcileTransactions } = useTransactions();
+  const { clock, observeCounter } = useRollupClock();
 
 
 
@@ -105,6 +126,7 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       setMarketData(null);
       setPlayerData(null);
       setChartData([]);
+      setHistoryFloor(null);
       setUserHistory(null);
       setGlobalState(null);
       setApi(null);
@@ -123,12 +145,8 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       const generatePlayerIdFromL2 = (): [string, string] | null => {
         try {
           if (l2Account.pubkey) {
-            const pubkey = l2Account.pubkey;
-            const leHexBN = new LeHexBN(bnToHexLe(pubkey));
-            const pkeyArray = leHexBN.toU64Array();
-            const playerId: [string, string] = [pkeyArray[1].toString(), pkeyArray[2].toString()];
+            const playerId = playerIdFromPubkey(l2Account.pubkey);
             console.log("Generated player ID from L2 account:", playerId);
-            console.log("Original bigint values:", pkeyArray[1], pkeyArray[2]);
             return playerId;
           }
           return null;
@@ -170,11 +188,7 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
           }
         } catch (error) {
           console.error('Auto-install failed:', error);
-          toast({
-            title: "Auto-connection Failed", 
-            description: "Failed to auto-connect. Please try manually.",
-            variant: "destructive",
-          });
+          toast(marketErrorToast(error, "Auto-connection Failed"));
         } finally {
           setIsLoading(false);
         }
@@ -184,6 +198,12 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     }
   }, [l2Account, playerInstalled, api]);
 
+  // History is accumulated per market, so start over when switching markets
+  useEffect(() => {
+    setChartData([]);
+    setHistoryFloor(null);
+  }, [marketId]);
+
   // Set up polling when API is ready, player is installed, and marketId is available
   useEffect(() => {
     if (api && playerInstalled && playerId && marketId) {
@@ -219,9 +239,7 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     // Log pkeyArray values during API initialization
     if (l2Account.pubkey) {
       try {
-        const pubkey = l2Account.pubkey;
-        const leHexBN = new LeHexBN(bnToHexLe(pubkey));
-        const pkeyArray = leHexBN.toU64Array();
+        const pkeyArray = playerKeyLimbs(l2Account.pubkey);
         console.log("API Init - pkeyArray[1]:", pkeyArray[1]);
         console.log("API Init - pkeyArray[2]:", pkeyArray[2]);
       } catch (error) {
@@ -281,12 +299,8 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       const generatePlayerIdFromL2 = (): [string, string] | null => {
         try {
           if (l2Account.pubkey) {
-            const pubkey = l2Account.pubkey;
-            const leHexBN = new LeHexBN(bnToHexLe(pubkey));
-            const pkeyArray = leHexBN.toU64Array();
-            const playerId: [string, string] = [pkeyArray[1].toString(), pkeyArray[2].toString()];
+            const playerId = playerIdFromPubkey(l2Account.pubkey);
             console.log("Generated player ID from L2 account:", playerId);
-            console.log("Original bigint values:", pkeyArray[1], pkeyArray[2]);
             return playerId;
           }
           return null;
@@ -329,11 +343,7 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       }
     } catch (error) {
       console.error('Install player failed:', error);
-      toast({
-        title: "Connection Failed",
-        description: "Failed to connect to the prediction market. Retrying...",
-        variant: "destructive",
-      });
+      toast(marketErrorToast(error, "Connection Failed"));
       throw error;
     } finally {
       setIsLoading(false);
@@ -368,15 +378,86 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     }
   };
 
-  const placeBet = async (betType: number, amount: string) => {
+  // Re-quote a trade against freshly fetched liquidity before submitting it.
+  // The BET/SELL commands carry no minimum output, so this is the last check before the chain.
+  const requoteTrade = async (type: 'BUY' | 'SELL', betType: number, amount: string, protection: TradeProtection) => {
+    if (!api || !marketId) {
+      throw new Error('API not initialized or market ID missing');
+    }
+
+    const market = await api.getMarket(marketId);
+    const side = betType === 1 ? 1 : 0;
+    const quoted = assertWithinSlippage(
+      type,
+      side,
+      Number(amount),
+      BigInt(market.yesLiquidity),
+      BigInt(market.noLiquidity),
+      protection
+    );
+    console.log("Trade re-quoted:", { type, betType, amount, quoted, minimum: protection.minimum });
+  };
+
+  // Player state before a submission; falls back to the last refreshed state if the query fails
+  const capturePositionSnapshot = async (): Promise<PositionSnapshot | undefined> => {
+    const fallback: PositionSnapshot | undefined = playerData ? {
+      nonce: Number(playerData.data.nonce),
+      balance: playerData.data.balance,
+      yesShares: playerData.data.yes_shares,
+      noShares: playerData.data.no_shares,
+      claimed: playerData.data.claimed,
+    } : undefined;
+
+    if (!api || !playerId || !marketId) {
+      return fallback;
+    }
+
+    try {
+      return (await api.getPositionSnapshot(playerId, marketId)) ?? fallback;
+    } catch (error) {
+      console.warn('Failed to capture position before submission:', error);
+      return fallback;
+    }
+  };
+
+  // Record a submission as PENDING once it reaches the front of the nonce queue, so its baseline
+  // already includes earlier commands; it is confirmed on refresh or marked FAILED on error
+  const submitTracked = async <T,>(
+    input: Omit<NewTransaction, 'baseline'>,
+    send: (options: CommandOptions) => Promise<T>
+  ): Promise<T> => {
+    let id: string | null = null;
+    const beforeSend = async () => {
+      const baseline = await capturePositionSnapshot();
+      id = trackTransaction({ ...input, baseline });
+    };
+    try {
+      return await send({ beforeSend });
+    } catch (error) {
+      if (id !== null) {
+        failTransaction(id, error);
+      }
+      throw error;
+    }
+  };
+
+  const toBetSide = (betType: number): Transaction['betType'] => (betType === 1 ? 1 : 0);
+
+  const placeBet = async (betType: number, amount: string, protection?: TradeProtection) => {
     if (!api || !marketId) {
       throw new Error('API not initialized or market ID missing');
     }
 
     setIsLoading(true);
     try {
+      if (protection) {
+        await requoteTrade('BUY', betType, amount, protection);
+      }
       console.log("Placing bet via API:", { marketId, betType, amount });
-      const response = await api.placeBetOnMarket(marketId, betType, amount);
+      const response = await submitTracked(
+        { type: 'BUY', amount: Number(amount), marketId, betType: toBetSide(betType) },
+        (options) => api.placeBetOnMarket(marketId, betType, amount, options)
+      );
       console.log("Bet response:", response);
       
       toast({
@@ -388,26 +469,32 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       await refreshData();
     } catch (error) {
       console.error('Bet failed:', error);
-      toast({
-        title: "Bet Failed",
-        description: "Failed to place bet. Please try again.",
-        variant: "destructive",
-      });
+      toast(marketErrorToast(error, "Bet Failed"));
+      if (error instanceof SlippageExceededError) {
+        // Show the user the liquidity their trade was rejected against
+        await refreshData();
+      }
       throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const sellShares = async (betType: number, amount: string) => {
+  const sellShares = async (betType: number, amount: string, protection?: TradeProtection) => {
     if (!api || !marketId) {
       throw new Error('API not initialized or market ID missing');
     }
 
     setIsLoading(true);
     try {
+      if (protection) {
+        await requoteTrade('SELL', betType, amount, protection);
+      }
       console.log("Selling shares via API:", { marketId, betType, amount });
-      const response = await api.sellSharesOnMarket(marketId, betType, amount);
+      const response = await submitTracked(
+        { type: 'SELL', amount: Number(amount), marketId, betType: toBetSide(betType) },
+        (options) => api.sellSharesOnMarket(marketId, betType, amount, options)
+      );
       console.log("Sell response:", response);
       
       toast({
@@ -419,11 +506,11 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       await refreshData();
     } catch (error) {
       console.error('Sell failed:', error);
-      toast({
-        title: "Sell Failed",
-        description: "Failed to sell shares. Please try again.",
-        variant: "destructive",
-      });
+      toast(marketErrorToast(error, "Sell Failed"));
+      if (error instanceof SlippageExceededError) {
+        // Show the user the liquidity their trade was rejected against
+        await refreshData();
+      }
       throw error;
     } finally {
       setIsLoading(false);
@@ -438,7 +525,10 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     setIsLoading(true);
     try {
       console.log("Claiming winnings via API for market:", marketId);
-      const response = await api.claimWinningsFromMarket(marketId);
+      const response = await submitTracked(
+        { type: 'CLAIM', amount: 0, marketId },
+        (options) => api.claimWinningsFromMarket(marketId, options)
+      );
       console.log("Claim response:", response);
       
       toast({
@@ -450,11 +540,7 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       await refreshData();
     } catch (error) {
       console.error('Claim failed:', error);
-      toast({
-        title: "Claim Failed",
-        description: "Failed to claim winnings. Please try again.",
-        variant: "destructive",
-      });
+      toast(marketErrorToast(error, "Claim Failed"));
       throw error;
     } finally {
       setIsLoading(false);
@@ -462,14 +548,14 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
   };
 
   const resolveMarket = async (outcome: boolean) => {
-    if (!api) {
-      throw new Error('API not initialized');
+    if (!api || !marketId) {
+      throw new Error('API not initialized or market ID missing');
     }
 
     setIsLoading(true);
     try {
-      console.log("Resolving market via API:", { outcome });
-      const response = await api.resolveMarket(outcome);
+      console.log("Resolving market via API:", { marketId, outcome });
+      const response = await api.resolveMarketById(marketId, outcome);
       console.log("Resolve response:", response);
       
       toast({
@@ -481,11 +567,7 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       await refreshData();
     } catch (error) {
       console.error('Resolve failed:', error);
-      toast({
-        title: "Resolve Failed",
-        description: "Failed to resolve market. Please try again.",
-        variant: "destructive",
-      });
+      toast(marketErrorToast(error, "Resolve Failed"));
       throw error;
     } finally {
       setIsLoading(false);
@@ -493,30 +575,26 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
   };
 
   const withdrawFees = async () => {
-    if (!api) {
-      throw new Error('API not initialized');
+    if (!api || !marketId) {
+      throw new Error('API not initialized or market ID missing');
     }
 
     setIsLoading(true);
     try {
-      console.log("Withdrawing fees via API...");
-      const response = await api.withdrawFees();
+      console.log("Withdrawing fees via API for market:", marketId);
+      const response = await api.withdrawFeesFromMarket(marketId);
       console.log("Withdraw fees response:", response);
       
       toast({
         title: "Fees Withdrawn",
-        description: "Successfully withdrew platform fees!",
+        description: "Successfully withdrew this market's fees!",
       });
       
       // Refresh data after withdrawal
       await refreshData();
     } catch (error) {
       console.error('Withdraw fees failed:', error);
-      toast({
-        title: "Withdraw Failed",
-        description: "Failed to withdraw fees. Please try again.",
-        variant: "destructive",
-      });
+      toast(marketErrorToast(error, "Withdraw Failed"));
       throw error;
     } finally {
       setIsLoading(false);
@@ -550,14 +628,37 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       
       // Refresh data after deposit
       await refreshData();
-    } catch (error: any) {
-      const message = `Deposit Failed: ${error?.message || "Unknown error"}`;
+    } catch (error) {
       console.error("Deposit error:", error);
+      toast(marketErrorToast(error, "Deposit Failed"));
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Admin credit to another player's balance, unlike depositFunds which bridges the user's own L1 tokens
+  const depositToPlayer = async (targetPlayerId: [string, string], amount: number) => {
+    if (!api) {
+      throw new Error('API not initialized');
+    }
+
+    setIsLoading(true);
+    try {
+      console.log("Depositing to player via API:", { targetPlayerId, amount });
+      const response = await api.depositToPlayer(targetPlayerId, BigInt(amount));
+      console.log("Admin deposit response:", response);
+
       toast({
-        title: "Deposit Failed",
-        description: message,
-        variant: "destructive",
+        title: "Funds Deposited",
+        description: `Deposited ${amount.toLocaleString()} tokens to player ${targetPlayerId[0]}/${targetPlayerId[1]}`,
       });
+
+      // The target may be the admin's own account
+      await refreshData();
+    } catch (error) {
+      console.error('Admin deposit failed:', error);
+      toast(marketErrorToast(error, "Deposit Failed"));
       throw error;
     } finally {
       setIsLoading(false);
@@ -568,29 +669,25 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     if (!api) throw new Error('API not ready');
     if (!l2Account || !effectiveL1Account) throw new Error('L1 and L2 accounts are required for withdrawal');
     if (!l2Account.getPrivateKey) throw new Error('L2 account private key is required for withdrawal');
-    if (!playerData?.data?.nonce) throw new Error('Player nonce is required for withdrawal');
 
     setIsLoading(true);
     try {
-      const nonce = parseInt(playerData.data.nonce);
-      if (isNaN(nonce)) throw new Error('Invalid nonce value');
       const withdrawAmount = BigInt(amount);
 
       // 直接调用 API
-      await api.withdrawFunds(nonce, withdrawAmount, effectiveL1Account, l2Account.getPrivateKey());
+      await submitTracked(
+        { type: 'WITHDRAW', amount },
+        (options) => api.withdrawFunds(withdrawAmount, effectiveL1Account, l2Account.getPrivateKey(), options)
+      );
 
       toast({
         title: "Withdraw Success",
         description: `Successfully withdrew ${amount} tokens!`,
       });
       await refreshData();
-    } catch (error: any) {
-      const message = `Withdraw Error: ${error?.message || "Unknown error"}`;
-      toast({
-        title: "Withdraw Failed",
-        description: message,
-        variant: "destructive",
-      });
+    } catch (error) {
+      console.error("Withdraw error:", error);
+      toast(marketErrorToast(error, "Withdraw Failed"));
       throw error;
     } finally {
       setIsLoading(false);
@@ -631,50 +728,38 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
         const marketFromResponse = marketResponse;
         
         // Update global state
-        if (globalStateResponse && globalStateResponse.state) {
-          setGlobalState({
-            counter: globalStateResponse.state.counter || 0,
-            market_ids: globalStateResponse.state.market_ids || [],
-            next_market_id: globalStateResponse.state.next_market_id || 1,
-            total_players: globalStateResponse.state.total_players || 0,
-            txsize: globalStateResponse.state.txsize || 0,
-            txcounter: globalStateResponse.state.txcounter || 0,
-          });
+        if (globalStateResponse) {
+          setGlobalState(globalStateResponse.state);
         }
         
         // Get current counter from global state
-        const currentCounter: number = globalStateResponse?.state?.counter || 0;
-        console.log('Counter extraction:', {
-          hasGlobalState: !!globalStateResponse,
-          hasState: !!globalStateResponse?.state,
-          rawCounter: globalStateResponse?.state?.counter,
-          finalCounter: currentCounter
-        });
+        const currentCounter = globalStateResponse?.state.counter ?? 0;
+        const observedAt = Date.now();
+        if (globalStateResponse) {
+          observeCounter(currentCounter, observedAt);
+        }
         
-        const startTime = parseInt(marketFromResponse.startTime) || 0;
-        const endTime = parseInt(marketFromResponse.endTime) || 0;
-        const resolutionTime = parseInt(marketFromResponse.resolutionTime) || 0;
-        const counterInterval = 5; // 5 seconds per counter increment
+        const { startTime, endTime, resolutionTime } = marketFromResponse;
         
-        // Import market calculations for status
-        const { getMarketStatus } = await import('../utils/market-calculations.js');
-        const marketStatus = getMarketStatus(
-          currentCounter,
+        // Time the countdown with the same clock the chart and header use
+        const marketStatus = getMarketStatusAt(
+          reconcileClock(clock, currentCounter, observedAt),
+          observedAt,
           startTime,
           endTime,
           resolutionTime,
-          marketFromResponse.resolved || false,
-          counterInterval
+          marketFromResponse.resolved
         );
         
         const parsedMarketData: MarketData = {
-          titleString: marketFromResponse.titleString || "Untitled Market",
-          yes_liquidity: marketFromResponse.yesLiquidity?.toString() || "0",
-          no_liquidity: marketFromResponse.noLiquidity?.toString() || "0", 
-          total_volume: marketFromResponse.totalVolume?.toString() || "0",
-          resolved: marketFromResponse.resolved || false,
-          outcome: marketFromResponse.outcome,
-          total_fees_collected: marketFromResponse.totalFeesCollected?.toString() || "0",
+          market_id: marketId,
+          titleString: marketFromResponse.titleString,
+          yes_liquidity: marketFromResponse.yesLiquidity,
+          no_liquidity: marketFromResponse.noLiquidity,
+          total_volume: marketFromResponse.totalVolume,
+          resolved: marketFromResponse.resolved,
+          outcome: marketFromResponse.outcome ?? false,
+          total_fees_collected: marketFromResponse.totalFeesCollected,
           // Add time-related fields
           counter: currentCounter,
           start_time: startTime,
@@ -706,11 +791,11 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
         const parsedPlayerData: PlayerData = {
           player_id: [parseInt(playerId[0]), parseInt(playerId[1])],
           data: {
-            balance: globalPlayerData?.data?.balance?.toString() || "0", // Balance from global state
-            yes_shares: playerFromResponse.yesShares?.toString() || "0",
-            no_shares: playerFromResponse.noShares?.toString() || "0",
-            claimed: playerFromResponse.claimed || false,
-            nonce: globalPlayerData?.nonce?.toString() || "0", // Nonce from global state
+            balance: globalPlayerData?.data.balance ?? "0", // Balance from global state
+            yes_shares: playerFromResponse.yesShares,
+            no_shares: playerFromResponse.noShares,
+            claimed: playerFromResponse.claimed,
+            nonce: globalPlayerData?.nonce.toString() ?? "0", // Nonce from global state
           },
         };
         console.log('Parsed player data (balance from global state):', {
@@ -723,19 +808,29 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
           finalPlayerData: parsedPlayerData
         });
         setPlayerData(parsedPlayerData);
+
+        // Confirm submissions whose nonce and position change are now visible
+        if (globalPlayerData) {
+          reconcileTransactions(marketId, {
+            nonce: globalPlayerData.nonce,
+            balance: globalPlayerData.data.balance,
+            yesShares: playerFromResponse.yesShares,
+            noShares: playerFromResponse.noShares,
+            claimed: playerFromResponse.claimed,
+          });
+        }
       } else {
         console.log('No player data or global state received from API');
       }
     } catch (error) {
       console.error('Failed to refresh data from API:', error);
       
-      // Show error toast only if this is not background polling
-      if (!marketData && !playerData) {
-        toast({
-          title: "Connection Error",
-          description: "Failed to connect to server. Make sure the server is running.",
-          variant: "destructive",
-        });
+      // A schema mismatch means the backend changed shape; surface it every time
+      if (error instanceof ApiSchemaError) {
+        toast(marketErrorToast(error, undefined, error.message));
+      } else if (!marketData && !playerData) {
+        // Show error toast only if this is not background polling
+        toast(marketErrorToast(MarketError.NETWORK));
       }
     } finally {
       if (isManualRefresh) {
@@ -744,6 +839,25 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     }
   };
 
+  const toChartPoint = (entry: LiquidityHistoryEntry): ChartDataPoint => {
+    // Anchor the points on the latest observed counter if no clock exists yet
+    const historyClock = clock ?? (globalState ? reconcileClock(null, globalState.counter, Date.now()) : null);
+    const yesLiqBig = BigInt(entry.yesLiquidity);
+    const noLiqBig = BigInt(entry.noLiquidity);
+
+    // Use MarketCalculations for consistent price calculation
+    const prices = MarketCalculations.calculatePrices(yesLiqBig, noLiqBig);
+
+    return {
+      counter: entry.counter,
+      yesPrice: prices.yesPrice,
+      noPrice: prices.noPrice,
+      yesLiquidity: Number(yesLiqBig),
+      noLiquidity: Number(noLiqBig),
+      timestamp: historyClock ? new Date(counterToTime(historyClock, entry.counter)).toISOString() : undefined,
+    };
+  };
+
   const loadMarketHistory = async () => {
     if (!api || !marketId) {
       console.warn('API or market ID not available for market history');
@@ -759,32 +873,12 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
       if (historyData && historyData.length > 0) {
         console.log('Market history loaded:', historyData.length, 'entries');
         
-        // Convert to chart data format and calculate prices
-        const chartPoints: ChartDataPoint[] = historyData.map((entry: any) => {
-          const yesLiq = parseFloat(entry.yesLiquidity);
-          const noLiq = parseFloat(entry.noLiquidity);
-          const yesLiqBig = BigInt(Math.floor(yesLiq));
-          const noLiqBig = BigInt(Math.floor(noLiq));
-          
-          // Use MarketCalculations for consistent price calculation
-          const prices = MarketCalculations.calculatePrices(yesLiqBig, noLiqBig);
-          
-          return {
-            counter: parseInt(entry.counter),
-            yesPrice: prices.yesPrice,
-            noPrice: prices.noPrice,
-            yesLiquidity: yesLiq,
-            noLiquidity: noLiq,
-            timestamp: new Date().toISOString(), // You might want to calculate actual timestamp based on counter
-          };
-        });
-        
-        // Sort by counter and keep only the last 100 entries for chart performance
-        chartPoints.sort((a, b) => a.counter - b.counter);
-        const last100Points = chartPoints.slice(-100);
+        const chartPoints = historyData.map(toChartPoint);
         
-        setChartData(last100Points);
-        console.log('Chart data updated with', last100Points.length, 'points (last 100 for performance)');
+        // Merge so pages loaded further back in time are kept alongside the live window
+        setChartData((prev) => mergeHistoryPoints(prev, chartPoints));
+        setHistoryFloor((prev) => Math.min(prev ?? Infinity, ...chartPoints.map((point) => point.counter)));
+        console.log('Chart data updated with', chartPoints.length, 'latest points');
       } else {
         console.log('No market history data received');
       }
@@ -793,6 +887,48 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
     }
   };
 
+  // Walk back page by page until history reaches `fromCounter` (or the market start)
+  const loadMarketHistoryFrom = async (fromCounter: number) => {
+    if (!api || !marketId || historyFloor === null || isLoadingOlderHistory || !historyRangeSupported) {
+      return;
+    }
+    const ranges = olderHistoryRanges(historyFloor, Math.max(fromCounter, marketData?.start_time ?? 0));
+    if (ranges.length === 0) {
+      return;
+    }
+
+    setIsLoadingOlderHistory(true);
+    try {
+      const pages = await Promise.all(
+        ranges.map((range) => api.getMarketLiquidityHistoryRange(marketId, range.from, range.to))
+      );
+      setChartData((prev) => mergeHistoryPoints(prev, pages.flat().map(toChartPoint)));
+      // Move the floor past empty pages too; anything older than the page cap loads on the next request
+      const pageFloor = ranges[ranges.length - 1].from;
+      setHistoryFloor((prev) => Math.min(prev ?? Infinity, pageFloor));
+    } catch (error) {
+      if (isUnsupportedRouteError(error)) {
+        console.warn('Server does not serve history ranges; older history is unavailable');
+        setHistoryRangeSupported(false);
+      } else {
+        console.error('Failed to load older market history:', error);
+      }
+    } finally {
+      setIsLoadingOlderHistory(false);
+    }
+  };
+
+  // Fetch the page of history just before the oldest counter requested so far
+  const loadOlderMarketHistory = async () => {
+    if (historyFloor !== null) {
+      await loadMarketHistoryFrom(historyFloor - LIQUIDITY_HISTORY_PAGE_SIZE);
+    }
+  };
+
+  const hasOlderHistory = historyRangeSupported
+    && historyFloor !== null
+    && olderHistoryRange(historyFloor, marketData?.start_time ?? 0) !== null;
+
   const loadUserHistory = async () => {
     if (!api || !playerId || !marketId) {
       console.warn('API, player ID, or market ID not available for user history');
@@ -816,13 +952,13 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
         // Transform to match existing UserHistoryResponse structure
         const transformedHistory: UserHistoryResponse = {
           success: true,
-          data: historyData.map((tx: any) => ({
-            index: tx.index || '0',
+          data: historyData.map((tx) => ({
+            index: tx.index,
             pid: [playerId[0], playerId[1]],
-            betType: tx.betType || 0,
-            amount: tx.amount || '0',
-            shares: tx.shares || '0',
-            counter: tx.counter || '0',
+            betType: tx.betType,
+            amount: tx.amount,
+            shares: tx.shares,
+            counter: tx.counter,
             __v: 0
           })),
           count: historyData.length
@@ -870,9 +1006,15 @@ export const MarketProvider: React.FC<MarketProviderProps> = ({ children }) => {
         resolveMarket,
         withdrawFees,
         depositFunds,
+        depositToPlayer,
         withdrawFunds,
         refreshData,
         loadMarketHistory,
+        loadOlderMarketHistory,
+        loadMarketHistoryFrom,
+        hasOlderHistory,
+        historyRangeSupported,
+        isLoadingOlderHistory,
         loadUserHistory
       }}
     >
@@ -0,0 +1,90 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import { getRpcUrl } from 'zkwasm-minirollup-browser';
+import PredictionMarketAPI from '../services/api';
+import {
+  counterToTime,
+  createClockFromConfig,
+  deserializeClock,
+  reconcileClock,
+  RollupClock,
+  serializeClock
+} from '../utils/rollup-clock';
+
+const STORAGE_KEY = 'prediction-market:rollup-clock';
+
+interface RollupClockContextType {
+  clock: RollupClock | null;
+  // Report a counter read from global state so the clock can follow the sequencer
+  observeCounter: (counter: number, observedAt?: number) => void;
+  counterToDate: (counter: number) => Date | null;
+}
+
+const RollupClockContext = createContext<RollupClockContextType | undefined>(undefined);
+
+export const useRollupClock = () => {
+  const context = useContext(RollupClockContext);
+  if (!context) {
+    throw new Error('useRollupClock must be used within a RollupClockProvider');
+  }
+  return context;
+};
+
+interface RollupClockProviderProps {
+  children: ReactNode;
+}
+
+const loadStoredClock = (): RollupClock | null => {
+  try {
+    return deserializeClock(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+export const RollupClockProvider: React.FC<RollupClockProviderProps> = ({ children }) => {
+  const [clock, setClock] = useState<RollupClock | null>(loadStoredClock);
+
+  // Genesis timing from the server config is the most accurate anchor when available
+  useEffect(() => {
+    let cancelled = false;
+    const api = new PredictionMarketAPI({ serverUrl: getRpcUrl(), privkey: "00000000" });
+    api.queryConfig()
+      .then((config) => {
+        const configClock = createClockFromConfig(config);
+        if (!cancelled && configClock) {
+          setClock(configClock);
+        }
+      })
+      .catch((error) => {
+        console.warn('Server config unavailable, timing counters from observations:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist so historical points keep the same timestamps across reloads
+  useEffect(() => {
+    if (!clock) return;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, serializeClock(clock));
+    } catch (error) {
+      console.warn('Failed to persist rollup clock:', error);
+    }
+  }, [clock]);
+
+  const observeCounter = useCallback((counter: number, observedAt = Date.now()) => {
+    setClock((prev) => reconcileClock(prev, counter, observedAt));
+  }, []);
+
+  const counterToDate = useCallback(
+    (counter: number) => (clock ? new Date(counterToTime(clock, counter)) : null),
+    [clock]
+  );
+
+  return (
+    <RollupClockContext.Provider value={{ clock, observeCounter, counterToDate }}>
+      {children}
+    </RollupClockContext.Provider>
+  );
+};
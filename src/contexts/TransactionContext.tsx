@@ -0,0 +1,157 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { getRpcUrl } from 'zkwasm-minirollup-browser';
+import PredictionMarketAPI from '../services/api';
+import { PositionSnapshot, Transaction } from '../types/market';
+import { playerIdFromPubkey } from '../utils/player-key';
+import {
+  createPendingTransaction,
+  deserializeTransactions,
+  MAX_TRACKED_TRANSACTIONS,
+  NewTransaction,
+  pendingMarketIds,
+  reconcileAllTransactions,
+  reconcileTransactions as reconcileAgainstSnapshot,
+  serializeTransactions
+} from '../utils/transaction-tracker';
+import { useWallet } from './WalletContext';
+
+const STORAGE_KEY = 'prediction-market:transactions';
+
+// How often pending submissions are checked against player state, whichever page is open
+const RECONCILE_INTERVAL_MS = 10000;
+
+interface TransactionContextType {
+  transactions: Transaction[];
+  pendingCount: number;
+  trackTransaction: (input: NewTransaction) => string;
+  failTransaction: (id: string, error: unknown) => void;
+  reconcileTransactions: (marketId: string, snapshot: PositionSnapshot) => void;
+  dismissTransaction: (id: string) => void;
+  clearSettled: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
+
+export const useTransactions = () => {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+};
+
+interface TransactionProviderProps {
+  children: ReactNode;
+}
+
+const loadStoredTransactions = (): Transaction[] => {
+  try {
+    return deserializeTransactions(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return [];
+  }
+};
+
+export const TransactionProvider: React.FC<TransactionProviderProps> = ({ children }) => {
+  const [transactions, setTransactions] = useState<Transaction[]>(loadStoredTransactions);
+  const { l2Account } = useWallet();
+  const [api, setApi] = useState<PredictionMarketAPI | null>(null);
+  // Latest list for the poll, which should not restart on every change
+  const transactionsRef = useRef(transactions);
+
+  useEffect(() => {
+    transactionsRef.current = transactions;
+  }, [transactions]);
+
+  // Player state is only returned for the key that signs the query, so this needs the L2 key
+  useEffect(() => {
+    const privkey = l2Account?.getPrivateKey();
+    setApi(privkey ? new PredictionMarketAPI({ serverUrl: getRpcUrl(), privkey }) : null);
+  }, [l2Account]);
+
+  // Persist so pending submissions survive a reload and are confirmed on the next refresh
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, serializeTransactions(transactions));
+    } catch (error) {
+      console.warn('Failed to persist transactions:', error);
+    }
+  }, [transactions]);
+
+  const trackTransaction = useCallback((input: NewTransaction) => {
+    const transaction = createPendingTransaction(input);
+    setTransactions((prev) => [transaction, ...prev].slice(0, MAX_TRACKED_TRANSACTIONS));
+    return transaction.id;
+  }, []);
+
+  const failTransaction = useCallback((id: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    setTransactions((prev) => prev.map((transaction) =>
+      transaction.id === id && transaction.status === 'PENDING'
+        ? { ...transaction, status: 'FAILED', settledAt: new Date(), error: message }
+        : transaction
+    ));
+  }, []);
+
+  const reconcileTransactions = useCallback((marketId: string, snapshot: PositionSnapshot) => {
+    setTransactions((prev) => reconcileAgainstSnapshot(prev, marketId, snapshot));
+  }, []);
+
+  const dismissTransaction = useCallback((id: string) => {
+    setTransactions((prev) => prev.filter((transaction) => transaction.id !== id));
+  }, []);
+
+  const clearSettled = useCallback(() => {
+    setTransactions((prev) => prev.filter((transaction) => transaction.status === 'PENDING'));
+  }, []);
+
+  const pendingCount = useMemo(
+    () => transactions.filter((transaction) => transaction.status === 'PENDING').length,
+    [transactions]
+  );
+
+  // Settle pending submissions for every market, not just the one a page happens to show
+  useEffect(() => {
+    if (!api || !l2Account?.pubkey || pendingCount === 0) {
+      return;
+    }
+    const pubkey = l2Account.pubkey;
+
+    const reconcilePending = async () => {
+      const marketIds = pendingMarketIds(transactionsRef.current);
+      try {
+        const playerId = playerIdFromPubkey(pubkey);
+        const [account, ...positions] = await Promise.all([
+          api.getPositionSnapshot(playerId),
+          ...marketIds.map((marketId) => api.getPositionSnapshot(playerId, marketId)),
+        ]);
+        const byMarket = new Map(marketIds.map((marketId, index) => [marketId, positions[index]]));
+        setTransactions((prev) => reconcileAllTransactions(
+          prev,
+          (marketId) => (marketId === undefined ? account : byMarket.get(marketId)) ?? undefined
+        ));
+      } catch (error) {
+        console.warn('Failed to check pending transactions:', error);
+      }
+    };
+
+    const interval = setInterval(reconcilePending, RECONCILE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [api, l2Account, pendingCount]);
+
+  return (
+    <TransactionContext.Provider
+      value={{
+        transactions,
+        pendingCount,
+        trackTransaction,
+        failTransaction,
+        reconcileTransactions,
+        dismissTransaction,
+        clearSettled
+      }}
+    >
+      {children}
+    </TransactionContext.Provider>
+  );
+};
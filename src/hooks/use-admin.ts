@@ -0,0 +1,59 @@
+import * as React from "react"
+import { getRpcUrl } from "zkwasm-minirollup-browser"
+import { useWallet } from "../contexts/WalletContext"
+import PredictionMarketAPI from "../services/api"
+import { adminKeyFromConfig, isAdminKey } from "../utils/admin"
+import { PlayerPubkey, playerKeyLimbs } from "../utils/player-key"
+
+export interface AdminStatus {
+  isAdmin: boolean
+  // True until the server config has been fetched
+  isChecking: boolean
+  // False when the server config names no admin key
+  adminConfigured: boolean
+}
+
+const readPlayerKey = (pubkey: PlayerPubkey): BigUint64Array | null => {
+  try {
+    return playerKeyLimbs(pubkey)
+  } catch (error) {
+    console.error("Failed to read L2 public key:", error)
+    return null
+  }
+}
+
+// Compares the connected L2 key with the admin key from the rollup config
+export function useAdmin(): AdminStatus {
+  const { l2Account } = useWallet()
+  const [adminKey, setAdminKey] = React.useState<bigint[] | null>(null)
+  const [isChecking, setIsChecking] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+    const api = new PredictionMarketAPI({ serverUrl: getRpcUrl(), privkey: "00000000" })
+    api.queryConfig()
+      .then((config) => {
+        if (!cancelled) setAdminKey(adminKeyFromConfig(config))
+      })
+      .catch((error) => {
+        console.warn("Server config unavailable, admin features disabled:", error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const playerKey = React.useMemo(
+    () => (l2Account?.pubkey ? readPlayerKey(l2Account.pubkey) : null),
+    [l2Account]
+  )
+
+  return {
+    isAdmin: isAdminKey(adminKey, playerKey),
+    isChecking,
+    adminConfigured: adminKey !== null,
+  }
+}
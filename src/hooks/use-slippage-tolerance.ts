@@ -0,0 +1,30 @@
+import * as React from "react"
+import { DEFAULT_SLIPPAGE_TOLERANCE, normalizeSlippageTolerance } from "../utils/slippage"
+
+const STORAGE_KEY = "prediction-market:slippage-tolerance"
+
+function readStoredTolerance(): number {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored === null ? DEFAULT_SLIPPAGE_TOLERANCE : normalizeSlippageTolerance(Number(stored))
+  } catch {
+    return DEFAULT_SLIPPAGE_TOLERANCE
+  }
+}
+
+// Slippage tolerance shared across markets and persisted between sessions
+export function useSlippageTolerance() {
+  const [tolerance, setToleranceState] = React.useState<number>(readStoredTolerance)
+
+  const setTolerance = React.useCallback((value: number) => {
+    const normalized = normalizeSlippageTolerance(value)
+    setToleranceState(normalized)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, normalized.toString())
+    } catch {
+      // Storage can be unavailable in private browsing; keep the in-memory value
+    }
+  }, [])
+
+  return [tolerance, setTolerance] as const
+}
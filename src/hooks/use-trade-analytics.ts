@@ -0,0 +1,65 @@
+import * as React from "react"
+import PredictionMarketAPI from "../services/api"
+import { describeMarketError } from "../services/marketErrors"
+import { LiquidityHistoryEntry } from "../services/schemas"
+import { AnalyticsTrade, mergeTradeFeeds } from "../utils/admin-analytics"
+
+export interface TradeAnalyticsData {
+  trades: AnalyticsTrade[]
+  liquidity: Record<string, LiquidityHistoryEntry[]>
+  isLoading: boolean
+  error: string | null
+  reload: () => void
+}
+
+// Loads the recent trades and liquidity history of `marketIds`; with `includePlatformFeed`
+// the platform-wide feed is merged in too. The server decides how many recent trades each
+// feed returns, so these are never full-history figures
+export function useTradeAnalytics(
+  api: PredictionMarketAPI | null,
+  marketIds: string[],
+  includePlatformFeed = false
+): TradeAnalyticsData {
+  const [trades, setTrades] = React.useState<AnalyticsTrade[]>([])
+  const [liquidity, setLiquidity] = React.useState<Record<string, LiquidityHistoryEntry[]>>({})
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [reloadToken, setReloadToken] = React.useState(0)
+  const marketKey = marketIds.join(",")
+
+  React.useEffect(() => {
+    if (!api || marketKey === "") return
+
+    let cancelled = false
+    const ids = marketKey.split(",")
+    setIsLoading(true)
+    setError(null)
+    Promise.all([
+      Promise.all(ids.map((id) => api.getMarketRecentTransactions(id))),
+      Promise.all(ids.map((id) => api.getMarketLiquidityHistory(id))),
+      includePlatformFeed ? api.getRecentTransactions() : Promise.resolve([]),
+    ])
+      .then(([marketTrades, histories, platformTrades]) => {
+        if (cancelled) return
+        setTrades(mergeTradeFeeds(
+          Object.fromEntries(ids.map((id, index) => [id, marketTrades[index]])),
+          platformTrades
+        ))
+        setLiquidity(Object.fromEntries(ids.map((id, index) => [id, histories[index]])))
+      })
+      .catch((err) => {
+        console.error("Failed to load analytics:", err)
+        if (!cancelled) setError(describeMarketError(err).message)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [api, marketKey, includePlatformFeed, reloadToken])
+
+  const reload = React.useCallback(() => setReloadToken((token) => token + 1), [])
+
+  return { trades, liquidity, isLoading, error, reload }
+}
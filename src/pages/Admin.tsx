@@ -0,0 +1,337 @@
+import { ArrowLeft, Coins, Gavel, Loader2, RefreshCw, ShieldAlert } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getRpcUrl, useConnectModal } from 'zkwasm-minirollup-browser';
+import AdminAnalytics from '../components/AdminAnalytics';
+import Footer from '../components/Footer';
+import TypedConfirmDialog from '../components/TypedConfirmDialog';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { useWallet } from '../contexts/WalletContext';
+import { useAdmin } from '../hooks/use-admin';
+import { useToast } from '../hooks/use-toast';
+import { useTradeAnalytics } from '../hooks/use-trade-analytics';
+import PredictionMarketAPI from '../services/api';
+import { describeMarketError, marketErrorToast } from '../services/marketErrors';
+import { MarketResponse } from '../services/schemas';
+import { getMarketStatus, MarketCalculations, MarketStatus } from '../utils/market-calculations';
+
+// Identifies the row and action currently awaiting the rollup
+type PendingAction = `${string}:${'RESOLVE_YES' | 'RESOLVE_NO' | 'WITHDRAW_FEES'}`;
+
+const RefusalCard = ({ title, children }: { title: string; children?: React.ReactNode }) => (
+  <div className="min-h-screen flex items-center justify-center bg-background p-4">
+    <Card className="gradient-card market-glow p-8 max-w-md w-full text-center animate-fade-in">
+      <div className="space-y-6">
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <ShieldAlert className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+          <h3 className="font-semibold mb-2">{title}</h3>
+          {children}
+        </div>
+        <Link to="/" className="block text-sm text-muted-foreground hover:text-foreground">
+          Back to markets
+        </Link>
+      </div>
+    </Card>
+  </div>
+);
+
+const Admin = () => {
+  const { openConnectModal } = useConnectModal();
+  const { isConnected, isL2Connected, l1Account, l2Account, connectL1, connectL2 } = useWallet();
+  const { isAdmin, isChecking, adminConfigured } = useAdmin();
+  const { toast } = useToast();
+  const [api, setApi] = useState<PredictionMarketAPI | null>(null);
+  const [markets, setMarkets] = useState<MarketResponse[]>([]);
+  const [counter, setCounter] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [confirmResolve, setConfirmResolve] = useState<{ market: MarketResponse; outcome: boolean } | null>(null);
+  const marketIds = useMemo(() => markets.map((market) => market.marketId), [markets]);
+  const analytics = useTradeAnalytics(api, marketIds, true);
+
+  useEffect(() => {
+    if (isConnected && !l1Account) {
+      connectL1();
+    }
+  }, [isConnected, l1Account, connectL1]);
+
+  // Admin commands are signed with the connected L2 key, which the rollup checks against its admin key
+  useEffect(() => {
+    const privkey = l2Account?.getPrivateKey();
+    setApi(privkey && isAdmin ? new PredictionMarketAPI({ serverUrl: getRpcUrl(), privkey }) : null);
+  }, [l2Account, isAdmin]);
+
+  const loadMarkets = useCallback(async () => {
+    if (!api) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [allMarkets, globalState] = await Promise.all([api.getAllMarkets(), api.queryMarketState()]);
+      setMarkets(allMarkets);
+      setCounter(globalState?.state.counter ?? 0);
+    } catch (err) {
+      console.error('Failed to load markets:', err);
+      const info = describeMarketError(err);
+      setError(`${info.message} ${info.hint}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadMarkets();
+  }, [loadMarkets]);
+
+  const runAction = async (action: PendingAction, title: string, description: string, send: () => Promise<unknown>) => {
+    setPending(action);
+    try {
+      await send();
+      toast({ title, description });
+    } catch (err) {
+      console.error(`${title} failed:`, err);
+      toast(marketErrorToast(err, `${title} Failed`));
+    } finally {
+      setPending(null);
+      await loadMarkets();
+    }
+  };
+
+  const handleResolve = (market: MarketResponse, outcome: boolean) => {
+    if (!api) return;
+    runAction(
+      `${market.marketId}:${outcome ? 'RESOLVE_YES' : 'RESOLVE_NO'}`,
+      'Market Resolved',
+      `"${market.titleString}" resolved ${outcome ? 'YES' : 'NO'}`,
+      () => api.resolveMarketById(market.marketId, outcome)
+    );
+  };
+
+  const handleWithdrawFees = (market: MarketResponse) => {
+    if (!api) return;
+    runAction(
+      `${market.marketId}:WITHDRAW_FEES`,
+      'Fees Withdrawn',
+      `Withdrew ${Number(market.totalFeesCollected).toLocaleString()} tokens from "${market.titleString}"`,
+      () => api.withdrawFeesFromMarket(market.marketId)
+    );
+  };
+
+  if (!isConnected || !isL2Connected) {
+    return (
+      <RefusalCard title="Connect to Access Admin">
+        <p className="text-sm text-muted-foreground mb-4">
+          Connect the wallet holding the admin key to manage markets
+        </p>
+        {!isConnected ? (
+          <Button
+            onClick={openConnectModal}
+            className="w-full price-gradient-yes hover:opacity-90"
+            size="lg"
+            disabled={!openConnectModal}
+          >
+            Connect Wallet
+          </Button>
+        ) : (
+          <Button onClick={() => connectL2()} className="w-full price-gradient-yes hover:opacity-90" size="lg">
+            Connect to App
+          </Button>
+        )}
+      </RefusalCard>
+    );
+  }
+
+  if (isChecking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Checking admin access...
+      </div>
+    );
+  }
+
+  if (!adminConfigured) {
+    return (
+      <RefusalCard title="Admin Key Unavailable">
+        <p className="text-sm text-muted-foreground">
+          The rollup did not report an admin public key, so admin access cannot be verified
+        </p>
+      </RefusalCard>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <RefusalCard title="Admin Access Required">
+        <p className="text-sm text-muted-foreground">
+          The connected account is not the market admin. Switch to the admin account to continue.
+        </p>
+      </RefusalCard>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div className="flex items-center gap-3">
+            <Link to="/">
+              <Button variant="ghost" size="icon" aria-label="Back to markets">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-bitcoin-500 to-bull-500 bg-clip-text text-transparent">
+                Admin
+              </h1>
+              <p className="text-xs text-muted-foreground">Resolve markets and withdraw collected fees</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadMarkets} disabled={loading || pending !== null}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Markets</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="text-center space-y-3 py-6">
+                <p className="text-red-500">{error}</p>
+                <Button onClick={loadMarkets}>Retry</Button>
+              </div>
+            ) : loading && markets.length === 0 ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Loading markets...
+              </div>
+            ) : markets.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No markets found.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Market</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium text-right">YES Price</th>
+                      <th className="py-2 pr-4 font-medium text-right">Volume</th>
+                      <th className="py-2 pr-4 font-medium text-right">Fees</th>
+                      <th className="py-2 font-medium text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {markets.map((market) => {
+                      const status = getMarketStatus(
+                        counter,
+                        market.startTime,
+                        market.endTime,
+                        market.resolutionTime,
+                        market.resolved
+                      );
+                      // The rollup accepts a resolution once trading has ended
+                      const canResolve = status.status === MarketStatus.WAIT_RESOLUTION
+                        || status.status === MarketStatus.PENDING_RESOLUTION;
+                      const hasFees = BigInt(market.totalFeesCollected) > 0n;
+                      const { yesPrice } = MarketCalculations.calculatePrices(
+                        BigInt(market.yesLiquidity),
+                        BigInt(market.noLiquidity)
+                      );
+                      const isPending = (action: string) => pending === `${market.marketId}:${action}`;
+
+                      return (
+                        <tr key={market.marketId} className="border-b last:border-0">
+                          <td className="py-3 pr-4">
+                            <Link to={`/${market.marketId}`} className="font-medium hover:underline">
+                              {market.titleString}
+                            </Link>
+                            <p className="text-xs text-muted-foreground">#{market.marketId}</p>
+                          </td>
+                          <td className="py-3 pr-4">
+                            <Badge variant={market.resolved ? 'secondary' : 'outline'}>
+                              {market.resolved ? `Resolved ${market.outcome ? 'YES' : 'NO'}` : status.statusText}
+                            </Badge>
+                          </td>
+                          <td className="py-3 pr-4 text-right">{MarketCalculations.formatPrice(yesPrice)}</td>
+                          <td className="py-3 pr-4 text-right">{Number(market.totalVolume).toLocaleString()}</td>
+                          <td className="py-3 pr-4 text-right">{Number(market.totalFeesCollected).toLocaleString()}</td>
+                          <td className="py-3">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="border-bull-500 text-bull-600"
+                                onClick={() => setConfirmResolve({ market, outcome: true })}
+                                disabled={!canResolve || pending !== null}
+                              >
+                                {isPending('RESOLVE_YES') ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Gavel className="h-4 w-4 mr-1" />}
+                                YES
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="border-bear-500 text-bear-600"
+                                onClick={() => setConfirmResolve({ market, outcome: false })}
+                                disabled={!canResolve || pending !== null}
+                              >
+                                {isPending('RESOLVE_NO') ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Gavel className="h-4 w-4 mr-1" />}
+                                NO
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleWithdrawFees(market)}
+                                disabled={!hasFees || pending !== null}
+                              >
+                                {isPending('WITHDRAW_FEES') ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Coins className="h-4 w-4 mr-1" />}
+                                Fees
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {markets.length > 0 && (
+          <Card>
+            <CardContent className="p-6">
+              <AdminAnalytics analytics={analytics} markets={markets} />
+            </CardContent>
+          </Card>
+        )}
+
+        <TypedConfirmDialog
+          open={confirmResolve !== null}
+          onOpenChange={(open) => !open && setConfirmResolve(null)}
+          title={`Resolve ${confirmResolve?.outcome ? 'YES' : 'NO'}?`}
+          description={
+            <>
+              "{confirmResolve?.market.titleString}" will pay out to {confirmResolve?.outcome ? 'YES' : 'NO'} holders.
+              Resolution is final and cannot be changed afterwards.
+            </>
+          }
+          confirmText={confirmResolve?.outcome ? 'YES' : 'NO'}
+          actionLabel={`Resolve ${confirmResolve?.outcome ? 'YES' : 'NO'}`}
+          actionClassName={confirmResolve?.outcome ? 'price-gradient-yes' : 'price-gradient-no'}
+          onConfirm={() => confirmResolve && handleResolve(confirmResolve.market, confirmResolve.outcome)}
+        />
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default Admin;
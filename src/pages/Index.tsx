@@ -1,9 +1,11 @@
 import { useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { useConnectModal } from 'zkwasm-minirollup-browser';
 import AdminPanel from '../components/AdminPanel';
+import ConditionalOrdersPanel from '../components/ConditionalOrdersPanel';
 import MarketChart from '../components/MarketChart';
 import MarketHeader from '../components/MarketHeader';
+import PendingActivityDrawer from '../components/PendingActivityDrawer';
 import PortfolioPanel from '../components/PortfolioPanel';
 import RecentTransactions from '../components/RecentTransactions';
 import TradingPanel from '../components/TradingPanel';
@@ -14,13 +16,17 @@ import { Card } from '../components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { useMarket } from '../contexts/MarketContext';
 import { useWallet } from '../contexts/WalletContext';
+import { useAdmin } from '../hooks/use-admin';
 import { useToast } from '../hooks/use-toast';
+import { useTradeAnalytics } from '../hooks/use-trade-analytics';
 import sanityService from '../services/sanityService';
 import Footer from '../components/Footer';
+import { MarketStatus } from '../utils/market-calculations';
+import { TradeProtection } from '../utils/slippage';
 
 const Index = () => {
   const { marketId } = useParams<{ marketId: string }>();
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { isAdmin } = useAdmin();
   const [activeTab, setActiveTab] = useState("trade");
   const [landingImageUrl, setLandingImageUrl] = useState<string | null>(null);
   const { toast } = useToast();
@@ -50,9 +56,14 @@ const Index = () => {
     resolveMarket,
     withdrawFees,
     depositFunds,
+    depositToPlayer,
     withdrawFunds,
-    refreshData
+    refreshData,
+    userHistory,
+    api
   } = useMarket();
+  // Only admins see the panel, so only they pay for the analytics queries
+  const adminAnalytics = useTradeAnalytics(isAdmin ? api : null, marketId ? [marketId] : []);
 
   // Auto-connect L1 when RainbowKit connection is established
   useEffect(() => {
@@ -129,14 +140,14 @@ const Index = () => {
   // Player is now auto-installed when L2 connects
 
   // Trading functions using real API calls
-  const handleTrade = async (type: 'BUY' | 'SELL', betType: 0 | 1, amount: number) => {
+  const handleTrade = async (type: 'BUY' | 'SELL', betType: 0 | 1, amount: number, protection?: TradeProtection) => {
     if (!isL2Connected) {
       toast({
         title: "App Connection Required",
         description: "Please connect to the app first",
         variant: "destructive",
       });
-      return;
+      throw new Error('App not connected');
     }
 
     if (!playerId) {
@@ -145,17 +156,19 @@ const Index = () => {
         description: "Please register as a player first",
         variant: "destructive",
       });
-      return;
+      throw new Error('Player not registered');
     }
 
     try {
       if (type === 'BUY') {
-        await placeBet(betType, amount.toString());
+        await placeBet(betType, amount.toString(), protection);
       } else {
-        await sellShares(betType, amount.toString());
+        await sellShares(betType, amount.toString(), protection);
       }
     } catch (error) {
       console.error('Trade failed:', error);
+      // Failures are already reported; rethrow so the trading panel keeps the order
+      throw error;
     }
   };
 
@@ -254,9 +267,9 @@ const Index = () => {
     }
   };
 
-  const handleDepositFunds = async (playerId: string, amount: number) => {
-    console.log("Depositing funds:", { playerId, amount });
-    // This would need to be implemented in the API
+  // Rethrows so AdminPanel keeps the form filled in when the deposit fails
+  const handleDepositFunds = async (playerId: [string, string], amount: number) => {
+    await depositToPlayer(playerId, amount);
   };
 
   // Calculate market percentages from real data
@@ -464,6 +477,19 @@ const Index = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <PendingActivityDrawer />
+            <Link to="/portfolio">
+              <Button variant="outline" size="sm" className="text-xs sm:text-sm">
+                Portfolio
+              </Button>
+            </Link>
+            {isAdmin && (
+              <Link to="/admin">
+                <Button variant="outline" size="sm" className="text-xs sm:text-sm">
+                  Admin
+                </Button>
+              </Link>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -516,11 +542,14 @@ const Index = () => {
               
               <TabsContent value="trade" className="space-y-4">
                 {marketData && playerData ? (
-                  <TradingPanel
-                    market={marketData}
-                    playerData={playerData}
-                    onTrade={handleTrade}
-                  />
+                  <>
+                    <TradingPanel
+                      market={marketData}
+                      playerData={playerData}
+                      onTrade={handleTrade}
+                    />
+                    <ConditionalOrdersPanel canTrade={marketData.market_status === MarketStatus.ACTIVE_TRADING} />
+                  </>
                 ) : (
                   <Card className="p-8">
                     <div className="text-center text-muted-foreground">
@@ -537,6 +566,7 @@ const Index = () => {
                   <PortfolioPanel
                     market={marketData}
                     playerData={playerData}
+                    history={userHistory?.data ?? []}
                     onClaim={handleClaim}
                     onWithdraw={handleWithdraw}
                     onDeposit={handleDeposit}
@@ -565,7 +595,9 @@ const Index = () => {
             {marketData ? (
               <AdminPanel
                 market={marketData}
+                marketId={marketId ?? ''}
                 isAdmin={isAdmin}
+                analytics={adminAnalytics}
                 onResolveMarket={handleResolveMarket}
                 onWithdrawFees={handleWithdrawFees}
                 onDepositFunds={handleDepositFunds}
@@ -1,30 +1,37 @@
-import { DollarSign, Loader2, TrendingUp, Trophy } from 'lucide-react';
-import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Briefcase, DollarSign, Loader2, Search, TrendingUp, Trophy } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import AnimatedPrice from '../components/AnimatedPrice';
+import MarketCountdown from '../components/MarketCountdown';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { useRollupClock } from '../contexts/RollupClockContext';
 import PredictionMarketAPI from '../services/api';
+import { MarketResponse } from '../services/schemas';
 import sanityService, { SanityMarket } from '../services/sanityService';
-import { getMarketStatus, MarketStatus } from '../utils/market-calculations';
+import {
+  DEFAULT_SORT_DIRECTION,
+  filterAndSortMarkets,
+  MarketListQuery,
+  MarketSortKey,
+  MarketStatusFilter,
+  parseMarketListQuery,
+  SORT_OPTIONS,
+  STATUS_FILTER_OPTIONS,
+  toMarketListSearchParams
+} from '../utils/market-filters';
 import Footer from '../components/Footer';
 import { getRpcUrl } from 'zkwasm-minirollup-browser';
 
-interface Market {
-  marketId: string;
-  titleString: string;
-  yesLiquidity: string;
-  noLiquidity: string;
-  prizePool: string;
-  totalVolume: string;
-  resolved: boolean;
-  outcome?: boolean;
+// Matches the rollup counter interval, so each poll sees at most one new counter
+const MARKET_LIST_POLL_INTERVAL_MS = 5000;
+
+interface Market extends MarketResponse {
   landingUrl?: string;
   sanityData?: SanityMarket;
-  // Time fields from API
-  startTime?: string;
-  endTime?: string;
-  resolutionTime?: string;
 }
 
 const MarketList = () => {
@@ -33,6 +40,26 @@ const MarketList = () => {
   const [error, setError] = useState<string | null>(null);
   const [api, setApi] = useState<PredictionMarketAPI | null>(null);
   const [currentCounter, setCurrentCounter] = useState<number>(0);
+  const [counterObservedAt, setCounterObservedAt] = useState<number>(() => Date.now());
+  const sanityMarketsRef = useRef<Array<SanityMarket & { landingUrl?: string }> | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { observeCounter } = useRollupClock();
+
+  // Filters, search and sort live in the URL so filtered views can be shared
+  const query = useMemo(() => parseMarketListQuery(searchParams), [searchParams]);
+  const visibleMarkets = useMemo(
+    () => filterAndSortMarkets(markets, query, currentCounter),
+    [markets, query, currentCounter]
+  );
+  const hasActiveFilters = query.status !== 'all' || query.search.trim() !== '';
+
+  const updateQuery = (changes: Partial<MarketListQuery>) => {
+    setSearchParams(toMarketListSearchParams({ ...query, ...changes }), { replace: true });
+  };
+
+  const handleSortChange = (sort: MarketSortKey) => {
+    updateQuery({ sort, direction: DEFAULT_SORT_DIRECTION[sort] });
+  };
 
   // Initialize API for market list (doesn't need wallet connection)
   useEffect(() => {
@@ -53,27 +80,36 @@ const MarketList = () => {
     }
   }, []);
 
-  const fetchMarkets = async () => {
+  // Background refreshes keep the current grid on screen and only log failures
+  const fetchMarkets = async (background = false) => {
     if (!api) return;
     
     try {
-      setLoading(true);
-      setError(null);
+      if (!background) {
+        setLoading(true);
+        setError(null);
+      }
       
-      // Fetch markets, Sanity data, and global state
+      // Fetch markets, Sanity data (once), and global state
       const [backendMarkets, sanityMarkets, globalStateResponse] = await Promise.all([
         api.getAllMarkets(),
-        sanityService.getAllMarketsWithImages(),
+        sanityMarketsRef.current ?? sanityService.getAllMarketsWithImages(),
         api.queryMarketState()
       ]);
+      sanityMarketsRef.current = sanityMarkets;
       
       // Update current counter from global state
-      const counter = globalStateResponse?.state?.counter || 0;
+      const counter = globalStateResponse?.state.counter ?? 0;
+      const observedAt = Date.now();
       setCurrentCounter(counter);
+      setCounterObservedAt(observedAt);
+      if (globalStateResponse) {
+        observeCounter(counter, observedAt);
+      }
       
       // Merge backend markets with Sanity data
-      const mergedMarkets = backendMarkets.map((backendMarket: any) => {
-        const sanityMarket = sanityMarkets.find((sm: any) => sm.id.toString() === backendMarket.marketId);
+      const mergedMarkets: Market[] = backendMarkets.map((backendMarket) => {
+        const sanityMarket = sanityMarkets.find((sm) => sm.id.toString() === backendMarket.marketId);
         return {
           ...backendMarket,
           landingUrl: sanityMarket?.landingUrl,
@@ -84,16 +120,29 @@ const MarketList = () => {
       setMarkets(mergedMarkets);
     } catch (err) {
       console.error('Failed to fetch markets:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load markets');
+      if (!background) {
+        setError(err instanceof Error ? err.message : 'Failed to load markets');
+      }
     } finally {
-      setLoading(false);
+      if (!background) {
+        setLoading(false);
+      }
     }
   };
 
   useEffect(() => {
-    if (api) {
-      fetchMarkets();
-    }
+    if (!api) return;
+
+    fetchMarkets();
+
+    // Poll in the background, skipping ticks while the tab is hidden
+    const pollInterval = setInterval(() => {
+      if (!document.hidden) {
+        fetchMarkets(true);
+      }
+    }, MARKET_LIST_POLL_INTERVAL_MS);
+
+    return () => clearInterval(pollInterval);
   }, [api]);
 
   const calculatePrice = (yesLiq: string, noLiq: string) => {
@@ -111,29 +160,6 @@ const MarketList = () => {
     return parseInt(num).toLocaleString();
   };
 
-  const getMarketStatusForDisplay = (market: Market) => {
-    if (!market.startTime || !market.endTime || !market.resolutionTime) {
-      // Fallback to simple resolved check if timing data is not available
-      return market.resolved ? "Resolved" : "Active Trading";
-    }
-
-    const startTime = parseInt(market.startTime);
-    const endTime = parseInt(market.endTime);
-    const resolutionTime = parseInt(market.resolutionTime);
-    const counterInterval = 5; // 5 seconds per counter
-    
-    const marketStatus = getMarketStatus(
-      currentCounter,
-      startTime,
-      endTime,
-      resolutionTime,
-      market.resolved,
-      counterInterval
-    );
-
-    return marketStatus.statusText;
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -151,7 +177,7 @@ const MarketList = () => {
         <Card className="max-w-md w-full">
           <CardContent className="p-6 text-center">
             <p className="text-red-500 mb-4">{error}</p>
-            <Button onClick={fetchMarkets}>Retry</Button>
+            <Button onClick={() => fetchMarkets()}>Retry</Button>
           </CardContent>
         </Card>
       </div>
@@ -171,11 +197,69 @@ const MarketList = () => {
             <h2 className="text-2xl font-semibold mt-2">Choose a Prediction Market</h2>
             <p className="text-muted-foreground">Select a market to start trading</p>
           </div>
+          <Link to="/portfolio">
+            <Button variant="outline" size="sm">
+              <Briefcase className="h-4 w-4 mr-2" />
+              My Portfolio
+            </Button>
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query.search}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuery({ search: e.target.value })}
+              placeholder="Search markets..."
+              className="pl-9"
+            />
+          </div>
+          <Select value={query.status} onValueChange={(value: string) => updateQuery({ status: value as MarketStatusFilter })}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Select value={query.sort} onValueChange={(value: string) => handleSortChange(value as MarketSortKey)}>
+              <SelectTrigger className="md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>Sort: {option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => updateQuery({ direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+              aria-label={query.direction === 'asc' ? 'Sort ascending' : 'Sort descending'}
+            >
+              {query.direction === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+            </Button>
+          </div>
         </div>
 
+        {hasActiveFilters && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>Showing {visibleMarkets.length} of {markets.length} markets</span>
+            <Button variant="ghost" size="sm" onClick={() => updateQuery({ status: 'all', search: '' })}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+
         {/* Markets Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {markets.map((market) => {
+          {visibleMarkets.map((market) => {
             const prices = calculatePrice(market.yesLiquidity, market.noLiquidity);
             return (
               <Link key={market.marketId} to={`/${market.marketId}`}>
@@ -213,11 +297,11 @@ const MarketList = () => {
                     <div className="grid grid-cols-2 gap-4">
                       <div className="text-center p-3 bg-green-50 rounded-lg">
                         <div className="text-sm text-muted-foreground">YES</div>
-                        <div className="text-lg font-bold text-green-600">{prices.yesPrice}%</div>
+                        <AnimatedPrice value={prices.yesPrice} suffix="%" className="text-lg font-bold text-green-600" />
                       </div>
                       <div className="text-center p-3 bg-red-50 rounded-lg">
                         <div className="text-sm text-muted-foreground">NO</div>
-                        <div className="text-lg font-bold text-red-600">{prices.noPrice}%</div>
+                        <AnimatedPrice value={prices.noPrice} suffix="%" className="text-lg font-bold text-red-600" />
                       </div>
                     </div>
 
@@ -243,19 +327,21 @@ const MarketList = () => {
                           <span>Liquidity</span>
                         </div>
                         <span className="font-medium">
-                          {formatNumber((parseInt(market.yesLiquidity) + parseInt(market.noLiquidity)).toString())}
+                          {formatNumber((BigInt(market.yesLiquidity) + BigInt(market.noLiquidity)).toString())}
                         </span>
                       </div>
                     </div>
 
                     {/* Status */}
                     <div className="pt-2 border-t">
-                      <Badge 
-                        variant={market.resolved ? "secondary" : "default"} 
-                        className="w-full justify-center"
-                      >
-                        {getMarketStatusForDisplay(market)}
-                      </Badge>
+                      <MarketCountdown
+                        startTime={market.startTime}
+                        endTime={market.endTime}
+                        resolutionTime={market.resolutionTime}
+                        resolved={market.resolved}
+                        counter={currentCounter}
+                        counterObservedAt={counterObservedAt}
+                      />
                     </div>
                   </CardContent>
                 </Card>
@@ -269,6 +355,12 @@ const MarketList = () => {
             <p className="text-muted-foreground text-lg">No markets available at the moment</p>
           </div>
         )}
+
+        {markets.length > 0 && visibleMarkets.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground text-lg">No markets match your filters</p>
+          </div>
+        )}
       </div>
       <Footer />
     </div>
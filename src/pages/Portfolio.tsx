@@ -0,0 +1,351 @@
+import { ArrowLeft, Award, CheckCircle2, Loader2, RefreshCw, TrendingUp, Wallet, XCircle } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getRpcUrl, useConnectModal } from 'zkwasm-minirollup-browser';
+import Footer from '../components/Footer';
+import PendingActivityDrawer from '../components/PendingActivityDrawer';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { useTransactions } from '../contexts/TransactionContext';
+import { useWallet } from '../contexts/WalletContext';
+import { useToast } from '../hooks/use-toast';
+import PredictionMarketAPI from '../services/api';
+import { describeMarketError, marketErrorToast } from '../services/marketErrors';
+import { PlayerPubkey, playerIdFromPubkey } from '../utils/player-key';
+import {
+  claimAllWinnings,
+  ClaimResult,
+  findClaimablePositions,
+  MarketHolding,
+  PositionValuation,
+  summarizePortfolio
+} from '../utils/portfolio';
+
+const getPlayerIdFromL2 = (pubkey: PlayerPubkey): [string, string] | null => {
+  try {
+    return playerIdFromPubkey(pubkey);
+  } catch (error) {
+    console.error("Failed to generate player ID from L2:", error);
+    return null;
+  }
+};
+
+const positionStatus = (position: PositionValuation) => {
+  if (!position.resolved) {
+    return <Badge variant="outline">Open</Badge>;
+  }
+  if (position.unclaimedWinnings > 0) {
+    return <Badge className="bg-bull-500 text-white">Claimable</Badge>;
+  }
+  return <Badge variant="secondary">{position.claimed ? 'Claimed' : `Resolved ${position.outcome ? 'YES' : 'NO'}`}</Badge>;
+};
+
+const Portfolio = () => {
+  const { openConnectModal } = useConnectModal();
+  const { isConnected, isL2Connected, l1Account, l2Account, playerId, connectL1, connectL2 } = useWallet();
+  const { toast } = useToast();
+  const { trackTransaction, failTransaction, reconcileTransactions } = useTransactions();
+  const [api, setApi] = useState<PredictionMarketAPI | null>(null);
+  const [balance, setBalance] = useState('0');
+  const [holdings, setHoldings] = useState<MarketHolding[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [claiming, setClaiming] = useState(false);
+  const [claimResults, setClaimResults] = useState<ClaimResult[] | null>(null);
+
+  const resolvedPlayerId = useMemo(
+    () => playerId ?? (l2Account?.pubkey ? getPlayerIdFromL2(l2Account.pubkey) : null),
+    [playerId, l2Account]
+  );
+  const summary = useMemo(() => summarizePortfolio(balance, holdings), [balance, holdings]);
+  const claimable = useMemo(() => findClaimablePositions(summary.positions), [summary.positions]);
+
+  useEffect(() => {
+    if (isConnected && !l1Account) {
+      connectL1();
+    }
+  }, [isConnected, l1Account, connectL1]);
+
+  // Player state is only returned for the key that signs the query, so this needs the L2 key
+  useEffect(() => {
+    const privkey = l2Account?.getPrivateKey();
+    setApi(privkey ? new PredictionMarketAPI({ serverUrl: getRpcUrl(), privkey }) : null);
+  }, [l2Account]);
+
+  const loadPortfolio = useCallback(async () => {
+    if (!api || !resolvedPlayerId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const globalState = await api.queryPlayerState(resolvedPlayerId);
+      const marketIds = globalState?.state.market_ids ?? [];
+      const loaded = await Promise.all(marketIds.map(async (id) => {
+        const marketId = id.toString();
+        const [market, position] = await Promise.all([
+          api.getMarket(marketId),
+          api.getPlayerMarketPosition(resolvedPlayerId[0], resolvedPlayerId[1], marketId),
+        ]);
+        return { market, position };
+      }));
+      const playerBalance = globalState?.player?.data.balance ?? '0';
+      const playerNonce = globalState?.player?.nonce ?? 0;
+      setBalance(playerBalance);
+      setHoldings(loaded);
+      // Settle activity submitted from this page or from any market page
+      loaded.forEach(({ market, position }) => {
+        reconcileTransactions(market.marketId, {
+          nonce: playerNonce,
+          balance: playerBalance,
+          yesShares: position.yesShares,
+          noShares: position.noShares,
+          claimed: position.claimed,
+        });
+      });
+    } catch (err) {
+      console.error('Failed to load portfolio:', err);
+      const info = describeMarketError(err);
+      setError(`${info.message} ${info.hint}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [api, resolvedPlayerId, reconcileTransactions]);
+
+  useEffect(() => {
+    loadPortfolio();
+  }, [loadPortfolio]);
+
+  const handleClaimAll = async () => {
+    if (!api || claimable.length === 0) return;
+
+    setClaiming(true);
+    setClaimResults(null);
+    try {
+      const results = await claimAllWinnings(summary.positions, async (position) => {
+        let id: string | null = null;
+        // Take the baseline once earlier claims in the queue have landed
+        const beforeSend = async () => {
+          const baseline = resolvedPlayerId
+            ? await api.getPositionSnapshot(resolvedPlayerId, position.marketId).catch(() => null)
+            : null;
+          id = trackTransaction({ type: 'CLAIM', amount: position.unclaimedWinnings, marketId: position.marketId, baseline: baseline ?? undefined });
+        };
+        try {
+          return await api.claimWinningsFromMarket(position.marketId, { beforeSend });
+        } catch (error) {
+          if (id !== null) {
+            failTransaction(id, error);
+          }
+          throw error;
+        }
+      });
+      setClaimResults(results);
+
+      const claimed = results.filter((result) => result.success);
+      if (claimed.length === results.length) {
+        toast({
+          title: "Winnings Claimed",
+          description: `Claimed ${claimed.reduce((sum, result) => sum + result.amount, 0).toLocaleString()} tokens from ${claimed.length} market${claimed.length === 1 ? '' : 's'}`,
+        });
+      } else {
+        toast(marketErrorToast(
+          results.find((result) => !result.success)?.error,
+          "Some Claims Failed",
+          `${claimed.length} of ${results.length} claims succeeded.`
+        ));
+      }
+      await loadPortfolio();
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (!isConnected || !isL2Connected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="gradient-card market-glow p-8 max-w-md w-full text-center animate-fade-in">
+          <div className="space-y-6">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <h3 className="font-semibold mb-2">Connect to View Portfolio</h3>
+              <p className="text-sm text-muted-foreground">
+                Connect your wallet and the app to see your positions across all markets
+              </p>
+            </div>
+            {!isConnected ? (
+              <Button
+                onClick={openConnectModal}
+                className="w-full price-gradient-yes hover:opacity-90"
+                size="lg"
+                disabled={!openConnectModal}
+              >
+                Connect Wallet
+              </Button>
+            ) : (
+              <Button onClick={() => connectL2()} className="w-full price-gradient-yes hover:opacity-90" size="lg">
+                Connect to App
+              </Button>
+            )}
+            <Link to="/" className="block text-sm text-muted-foreground hover:text-foreground">
+              Back to markets
+            </Link>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const summaryCards = [
+    { label: 'Available Balance', value: summary.balance, icon: Wallet },
+    { label: 'Positions Value', value: summary.positionsValue, icon: TrendingUp },
+    { label: 'Unclaimed Winnings', value: summary.unclaimedWinnings, icon: Award },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div className="flex items-center gap-3">
+            <Link to="/">
+              <Button variant="ghost" size="icon" aria-label="Back to markets">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-bitcoin-500 to-bull-500 bg-clip-text text-transparent">
+                Portfolio
+              </h1>
+              <p className="text-xs text-muted-foreground">Positions across all markets</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <PendingActivityDrawer />
+            {claimable.length > 0 && (
+              <Button size="sm" onClick={handleClaimAll} disabled={claiming || loading} className="price-gradient-yes">
+                {claiming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Award className="h-4 w-4 mr-2" />}
+                Claim All ({claimable.length})
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={loadPortfolio} disabled={loading || claiming}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Net Worth */}
+        <Card className="gradient-card">
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Total Net Worth</p>
+            <p className="text-3xl font-bold">{summary.netWorth.toLocaleString()} tokens</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Balance plus open positions at current sell prices and unclaimed winnings
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {summaryCards.map(({ label, value, icon: Icon }) => (
+            <Card key={label}>
+              <CardContent className="p-4 flex items-center gap-3">
+                <Icon className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className="text-lg font-semibold">{value.toLocaleString()}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Claim All Summary */}
+        {claimResults && claimResults.length > 0 && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Claim Summary</CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setClaimResults(null)}>
+                Dismiss
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {claimResults.map((result) => (
+                <div key={result.marketId} className="flex items-start justify-between gap-4 text-sm">
+                  <div className="flex items-start gap-2">
+                    {result.success
+                      ? <CheckCircle2 className="h-4 w-4 mt-0.5 text-bull-600" />
+                      : <XCircle className="h-4 w-4 mt-0.5 text-bear-600" />}
+                    <div>
+                      <p className="font-medium">{result.title}</p>
+                      {!result.success && <p className="text-xs text-muted-foreground">{result.message}</p>}
+                    </div>
+                  </div>
+                  <span className={result.success ? 'text-bull-600' : 'text-muted-foreground line-through'}>
+                    {result.amount.toLocaleString()} tokens
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Positions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Positions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="text-center space-y-3 py-6">
+                <p className="text-red-500">{error}</p>
+                <Button onClick={loadPortfolio}>Retry</Button>
+              </div>
+            ) : loading && holdings.length === 0 ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Loading positions...
+              </div>
+            ) : summary.positions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>You have no positions yet.</p>
+                <Link to="/" className="text-sm underline">Browse markets</Link>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Market</th>
+                      <th className="py-2 pr-4 font-medium text-right">YES Shares</th>
+                      <th className="py-2 pr-4 font-medium text-right">NO Shares</th>
+                      <th className="py-2 pr-4 font-medium text-right">Value</th>
+                      <th className="py-2 font-medium text-right">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.positions.map((position) => (
+                      <tr key={position.marketId} className="border-b last:border-0">
+                        <td className="py-3 pr-4">
+                          <Link to={`/${position.marketId}`} className="font-medium hover:underline">
+                            {position.title}
+                          </Link>
+                        </td>
+                        <td className="py-3 pr-4 text-right text-bull-600">{position.yesShares.toLocaleString()}</td>
+                        <td className="py-3 pr-4 text-right text-bear-600">{position.noShares.toLocaleString()}</td>
+                        <td className="py-3 pr-4 text-right font-medium">{position.totalValue.toLocaleString()}</td>
+                        <td className="py-3 text-right">{positionStatus(position)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default Portfolio;
@@ -1,23 +1,89 @@
 import { createCommand, PlayerConvention, ZKWasmAppRpc } from 'zkwasm-minirollup-rpc';
-import { CommandType, TransactionData } from "../types/market";
+import type { z } from 'zod';
+import { CommandType, MarketHistoryResponse, PositionSnapshot, TransactionData, UserHistoryResponse } from "../types/market";
 import { getWithdrawTransactionCommandArray, sendTransaction } from '../utils/transaction';
 import type { L1AccountInfo } from 'zkwasm-minirollup-browser';
+import {
+  ApiSchemaError,
+  dataEnvelopeSchema,
+  globalStateSchema,
+  GlobalStateResponse,
+  liquidityHistorySchema,
+  LiquidityHistoryEntry,
+  marketHistoryResponseSchema,
+  marketListSchema,
+  marketSchema,
+  MarketResponse,
+  parseResponse,
+  PlayerMarketPosition,
+  playerMarketPositionSchema,
+  PlayerTransaction,
+  playerTransactionListSchema,
+  rawJsonResponseSchema,
+  serverConfigSchema,
+  ServerConfigResponse,
+  transactionListSchema,
+  userHistoryResponseSchema,
+} from './schemas';
+import { createAppRpc } from './mockRpc';
+import { MarketCommandError, MarketError, toMarketCommandError } from './marketErrors';
+import { NonceManager } from './nonceManager';
 
 interface ServerConfig {
   serverUrl: string;
   privkey: string;
 }
 
+export interface CommandOptions {
+  // Runs when the command reaches the front of the nonce queue, right before it is signed
+  beforeSend?: () => Promise<void>;
+}
+
 class PredictionMarketAPI extends PlayerConvention {
   public rpc: ZKWasmAppRpc;
   private privkey: string;
+  private nonceManager: NonceManager;
 
   constructor(config: ServerConfig) {
-    const rpc = new ZKWasmAppRpc(config.serverUrl);
+    const rpc = createAppRpc(config.serverUrl);
     super(config.privkey, rpc, BigInt(CommandType.DEPOSIT), BigInt(CommandType.WITHDRAW));
     this.privkey = config.privkey;
     this.rpc = rpc;
     this.processingKey = config.privkey;
+    this.nonceManager = new NonceManager(() => this.getNonce());
+  }
+
+  // Build and send a command with a nonce reserved by the nonce manager
+  private async sendCommand(command: CommandType, params: bigint[], options: CommandOptions = {}): Promise<unknown> {
+    return await this.nonceManager.run(
+      (nonce) => this.sendTransactionWithCommand(createCommand(nonce, BigInt(command), params)),
+      options.beforeSend
+    );
+  }
+
+  // Query a data route, unwrap the { success, data } envelope and validate the payload
+  private async queryEnvelope<T extends z.ZodTypeAny>(route: string, schema: T, failureMessage: string): Promise<z.output<T>> {
+    const response = await this.rpc.queryData(route);
+    const envelope = parseResponse(dataEnvelopeSchema, response, route);
+    if (!envelope.success) {
+      throw new Error(envelope.message || failureMessage);
+    }
+    return parseResponse(schema, envelope.data, route);
+  }
+
+  // Parse the JSON document carried by queryState/queryConfig responses
+  private parseJsonResponse<T extends z.ZodTypeAny>(response: unknown, schema: T, route: string): z.output<T> | null {
+    if (!response) {
+      return null;
+    }
+    const raw = parseResponse(rawJsonResponseSchema, response, route);
+    let document: unknown;
+    try {
+      document = JSON.parse(raw.data);
+    } catch {
+      throw new ApiSchemaError(route, [{ code: 'custom', path: [], message: 'malformed JSON' }]);
+    }
+    return parseResponse(schema, document, route);
   }
 
   async sendTransactionWithCommand(cmd: BigUint64Array) {
@@ -25,10 +91,9 @@ class PredictionMarketAPI extends PlayerConvention {
       let result = await this.rpc.sendTransaction(cmd, this.processingKey);
       return result;
     } catch (e) {
-      if (e instanceof Error) {
-        console.log(e.message);
-      }
-      throw e;
+      const error = toMarketCommandError(e);
+      console.error(`Command rejected (${error.code}):`, error.message);
+      throw error;
     }
   }
 
@@ -38,7 +103,7 @@ class PredictionMarketAPI extends PlayerConvention {
       const command = createCommand(0n, BigInt(CommandType.INSTALL_PLAYER), []);
       return await this.sendTransactionWithCommand(command);
     } catch (e) {
-      if (e instanceof Error && e.message === "PlayerAlreadyExists") {
+      if (e instanceof MarketCommandError && e.code === MarketError.PLAYER_ALREADY_EXISTS) {
         console.log("Player already exists, skipping installation");
         return null; // Not an error, just already exists
       }
@@ -47,53 +112,36 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Place a bet: BET command
-  async placeBet(betType: number, amount: string): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.BET), [BigInt(betType), BigInt(amount)]);
-    return await this.sendTransactionWithCommand(command);
+  async placeBet(betType: number, amount: string): Promise<unknown> {
+    return await this.sendCommand(CommandType.BET, [BigInt(betType), BigInt(amount)]);
   }
 
   // Sell shares: SELL command
-  async sellShares(betType: number, amount: string): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.SELL), [BigInt(betType), BigInt(amount)]);
-    return await this.sendTransactionWithCommand(command);
+  async sellShares(betType: number, amount: string): Promise<unknown> {
+    return await this.sendCommand(CommandType.SELL, [BigInt(betType), BigInt(amount)]);
   }
 
   // Claim winnings: CLAIM command
-  async claimWinnings(): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.CLAIM), []);
-    return await this.sendTransactionWithCommand(command);
-  }
-
-  // Resolve market (admin only): RESOLVE command
-  async resolveMarket(outcome: boolean): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.RESOLVE), [outcome ? 1n : 0n]);
-    return await this.sendTransactionWithCommand(command);
+  async claimWinnings(): Promise<unknown> {
+    return await this.sendCommand(CommandType.CLAIM, []);
   }
 
-  // Withdraw fees (admin only): WITHDRAW_FEES command
-  async withdrawFees(): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.WITHDRAW_FEES), []);
-    return await this.sendTransactionWithCommand(command);
-  }
-
-  async withdrawFunds(nonce: number, amount: bigint, l1Account: L1AccountInfo, l2PrivateKey: string): Promise<any> {
-    const cmd = getWithdrawTransactionCommandArray(nonce, amount, l1Account);
-    return await sendTransaction({ cmd, prikey: l2PrivateKey });
+  async withdrawFunds(amount: bigint, l1Account: L1AccountInfo, l2PrivateKey: string, options: CommandOptions = {}): Promise<unknown> {
+    return await this.nonceManager.run(async (nonce) => {
+      const cmd = getWithdrawTransactionCommandArray(Number(nonce), amount, l1Account);
+      try {
+        return await sendTransaction({ cmd, prikey: l2PrivateKey });
+      } catch (e) {
+        throw toMarketCommandError(e);
+      }
+    }, options.beforeSend);
   }
 
   // Query market state
-  async queryMarketState(): Promise<any> {
+  async queryMarketState(): Promise<GlobalStateResponse | null> {
     try {
-      const response: any = await this.rpc.queryState(this.privkey);
-      if (response && response.data) {
-        return JSON.parse(response.data);
-      }
-      return null;
+      const response = await this.rpc.queryState(this.privkey);
+      return this.parseJsonResponse(response, globalStateSchema, 'queryState');
     } catch (error) {
       console.error('Failed to query market state:', error);
       throw error;
@@ -101,15 +149,11 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Query player state by player ID  
-  async queryPlayerState(playerId: [string, string]): Promise<any> {
+  async queryPlayerState(playerId: [string, string]): Promise<GlobalStateResponse | null> {
     try {
-      const response: any = await this.rpc.queryState(this.privkey);
-      if (response && response.data) {
-        const data = JSON.parse(response.data);
-        // Filter for specific player data if needed
-        return data;
-      }
-      return null;
+      const response = await this.rpc.queryState(this.privkey);
+      // Filter for specific player data if needed
+      return this.parseJsonResponse(response, globalStateSchema, 'queryState');
     } catch (error) {
       console.error('Failed to query player state:', error);
       throw error;
@@ -117,13 +161,10 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Query configuration
-  async queryConfig(): Promise<any> {
+  async queryConfig(): Promise<ServerConfigResponse | null> {
     try {
-      const response: any = await this.rpc.queryConfig();
-      if (response && response.data) {
-        return JSON.parse(response.data);
-      }
-      return null;
+      const response = await this.rpc.queryConfig();
+      return this.parseJsonResponse(response, serverConfigSchema, 'queryConfig');
     } catch (error) {
       console.error('Failed to query config:', error);
       throw error;
@@ -131,10 +172,11 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Query market liquidity history for the last N counters
-  async queryMarketHistory(upToCounter: number): Promise<any> {
+  async queryMarketHistory(upToCounter: number): Promise<MarketHistoryResponse> {
     try {
-      const response: any = await this.rpc.queryData(`market/${upToCounter}`);
-      return response;
+      const route = `market/${upToCounter}`;
+      const response = await this.rpc.queryData(route);
+      return parseResponse(marketHistoryResponseSchema, response, route);
     } catch (error) {
       console.error('Failed to query market history:', error);
       throw error;
@@ -142,10 +184,11 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Query user transaction history
-  async queryUserHistory(playerId: [string, string]): Promise<any> {
+  async queryUserHistory(playerId: [string, string]): Promise<UserHistoryResponse> {
     try {
-      const response: any = await this.rpc.queryData(`history/${playerId[0]}/${playerId[1]}`);
-      return response;
+      const route = `history/${playerId[0]}/${playerId[1]}`;
+      const response = await this.rpc.queryData(route);
+      return parseResponse(userHistoryResponseSchema, response, route);
     } catch (error) {
       console.error('Failed to query user history:', error);
       throw error;
@@ -153,14 +196,9 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Get player recent transactions across all markets
-  async getPlayerRecentTransactions(playerId1: string, playerId2: string, count: number = 20): Promise<any[]> {
+  async getPlayerRecentTransactions(playerId1: string, playerId2: string, count: number = 20): Promise<PlayerTransaction[]> {
     try {
-      const response = await this.rpc.queryData(`player/${playerId1}/${playerId2}/recent`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get player transactions');
-      }
-      return result.data;
+      return await this.queryEnvelope(`player/${playerId1}/${playerId2}/recent`, playerTransactionListSchema, 'Failed to get player transactions');
     } catch (error) {
       console.error('Failed to get player recent transactions:', error);
       throw error;
@@ -168,14 +206,9 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Get player recent transactions for specific market
-  async getPlayerMarketRecentTransactions(playerId1: string, playerId2: string, marketId: string, count: number = 20): Promise<any[]> {
+  async getPlayerMarketRecentTransactions(playerId1: string, playerId2: string, marketId: string, count: number = 20): Promise<PlayerTransaction[]> {
     try {
-      const response = await this.rpc.queryData(`player/${playerId1}/${playerId2}/market/${marketId}/recent`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get player market transactions');
-      }
-      return result.data;
+      return await this.queryEnvelope(`player/${playerId1}/${playerId2}/market/${marketId}/recent`, playerTransactionListSchema, 'Failed to get player market transactions');
     } catch (error) {
       console.error('Failed to get player market recent transactions:', error);
       throw error;
@@ -185,12 +218,7 @@ class PredictionMarketAPI extends PlayerConvention {
   // Get recent transactions
   async getRecentTransactions(count: number = 20): Promise<TransactionData[]> {
     try {
-      const response = await this.rpc.queryData(`recent/${count}`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get recent transactions');
-      }  
-      return result.data;
+      return await this.queryEnvelope(`recent/${count}`, transactionListSchema, 'Failed to get recent transactions');
     } catch (error) {
       console.error('Failed to get recent transactions:', error);
       throw error;
@@ -200,14 +228,9 @@ class PredictionMarketAPI extends PlayerConvention {
   // === Multi-Market API Methods ===
   
   // Get all markets
-  async getAllMarkets(): Promise<any[]> {
+  async getAllMarkets(): Promise<MarketResponse[]> {
     try {
-      const response = await this.rpc.queryData('markets');
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get markets');
-      }
-      return result.data;
+      return await this.queryEnvelope('markets', marketListSchema, 'Failed to get markets');
     } catch (error) {
       console.error('Failed to get all markets:', error);
       throw error;
@@ -215,14 +238,9 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Get specific market details
-  async getMarket(marketId: string): Promise<any> {
+  async getMarket(marketId: string): Promise<MarketResponse> {
     try {
-      const response = await this.rpc.queryData(`market/${marketId}`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get market');
-      }
-      return result.data;
+      return await this.queryEnvelope(`market/${marketId}`, marketSchema, 'Failed to get market');
     } catch (error) {
       console.error('Failed to get market:', error);
       throw error;
@@ -232,12 +250,7 @@ class PredictionMarketAPI extends PlayerConvention {
   // Get recent transactions for specific market
   async getMarketRecentTransactions(marketId: string, count: number = 20): Promise<TransactionData[]> {
     try {
-      const response = await this.rpc.queryData(`market/${marketId}/recent`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get market transactions');
-      }
-      return result.data;
+      return await this.queryEnvelope(`market/${marketId}/recent`, transactionListSchema, 'Failed to get market transactions');
     } catch (error) {
       console.error('Failed to get market recent transactions:', error);
       throw error;
@@ -245,64 +258,98 @@ class PredictionMarketAPI extends PlayerConvention {
   }
 
   // Get player position in specific market
-  async getPlayerMarketPosition(playerId1: string, playerId2: string, marketId: string): Promise<any> {
+  async getPlayerMarketPosition(playerId1: string, playerId2: string, marketId: string): Promise<PlayerMarketPosition> {
     try {
-      const response = await this.rpc.queryData(`player/${playerId1}/${playerId2}/market/${marketId}`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get player position');
-      }
-      return result.data;
+      return await this.queryEnvelope(`player/${playerId1}/${playerId2}/market/${marketId}`, playerMarketPositionSchema, 'Failed to get player position');
     } catch (error) {
       console.error('Failed to get player market position:', error);
       throw error;
     }
   }
 
+  // Player nonce and balance with their position in one market, as transaction baselines record
+  // them. Without a market only the nonce and balance are meaningful; null if the player is unknown
+  async getPositionSnapshot(playerId: [string, string], marketId?: string): Promise<PositionSnapshot | null> {
+    const [globalState, position] = await Promise.all([
+      this.queryMarketState(),
+      marketId === undefined ? null : this.getPlayerMarketPosition(playerId[0], playerId[1], marketId),
+    ]);
+    if (!globalState?.player) {
+      return null;
+    }
+    return {
+      nonce: globalState.player.nonce,
+      balance: globalState.player.data.balance,
+      yesShares: position?.yesShares ?? '0',
+      noShares: position?.noShares ?? '0',
+      claimed: position?.claimed ?? false,
+    };
+  }
+
   // Get market liquidity history for recent 100 counters (only liquidity data)
-  async getMarketLiquidityHistory(marketId: string): Promise<any[]> {
+  async getMarketLiquidityHistory(marketId: string): Promise<LiquidityHistoryEntry[]> {
     try {
-      const response = await this.rpc.queryData(`market/${marketId}/liquidity`);
-      const result = response as any;
-      if (!result.success) {
-        throw new Error(result.message || 'Failed to get market liquidity history');
-      }
-      return result.data;
+      return await this.queryEnvelope(`market/${marketId}/liquidity`, liquidityHistorySchema, 'Failed to get market liquidity history');
     } catch (error) {
       console.error('Failed to get market liquidity history:', error);
       throw error;
     }
   }
 
+  // Get market liquidity history between two counters (inclusive), at most one page per call.
+  // Only the mock RPC serves market/:id/liquidity/:from/:to so far; the rollup server fails
+  // with an error isUnsupportedRouteError recognises
+  async getMarketLiquidityHistoryRange(marketId: string, fromCounter: number, toCounter: number): Promise<LiquidityHistoryEntry[]> {
+    try {
+      return await this.queryEnvelope(
+        `market/${marketId}/liquidity/${fromCounter}/${toCounter}`,
+        liquidityHistorySchema,
+        'Failed to get market liquidity history range'
+      );
+    } catch (error) {
+      console.error('Failed to get market liquidity history range:', error);
+      throw error;
+    }
+  }
+
   // === Market-specific transaction methods (updated to include marketId) ===
   
   // Place a bet on specific market: BET command
-  async placeBetOnMarket(marketId: string, betType: number, amount: string): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.BET), [
+  async placeBetOnMarket(marketId: string, betType: number, amount: string, options?: CommandOptions): Promise<unknown> {
+    return await this.sendCommand(CommandType.BET, [
       BigInt(marketId), 
       BigInt(betType), 
       BigInt(amount)
-    ]);
-    return await this.sendTransactionWithCommand(command);
+    ], options);
   }
 
   // Sell shares on specific market: SELL command
-  async sellSharesOnMarket(marketId: string, betType: number, amount: string): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.SELL), [
+  async sellSharesOnMarket(marketId: string, betType: number, amount: string, options?: CommandOptions): Promise<unknown> {
+    return await this.sendCommand(CommandType.SELL, [
       BigInt(marketId), 
       BigInt(betType), 
       BigInt(amount)
-    ]);
-    return await this.sendTransactionWithCommand(command);
+    ], options);
   }
 
   // Claim winnings from specific market: CLAIM command
-  async claimWinningsFromMarket(marketId: string): Promise<any> {
-    let nonce = await this.getNonce();
-    const command = createCommand(nonce, BigInt(CommandType.CLAIM), [BigInt(marketId)]);
-    return await this.sendTransactionWithCommand(command);
+  async claimWinningsFromMarket(marketId: string, options?: CommandOptions): Promise<unknown> {
+    return await this.sendCommand(CommandType.CLAIM, [BigInt(marketId)], options);
+  }
+
+  // Resolve specific market (admin only): RESOLVE command
+  async resolveMarketById(marketId: string, outcome: boolean): Promise<unknown> {
+    return await this.sendCommand(CommandType.RESOLVE, [BigInt(marketId), outcome ? 1n : 0n]);
+  }
+
+  // Withdraw fees collected by specific market (admin only): WITHDRAW_FEES command
+  async withdrawFeesFromMarket(marketId: string): Promise<unknown> {
+    return await this.sendCommand(CommandType.WITHDRAW_FEES, [BigInt(marketId)]);
+  }
+
+  // Credit a player's balance (admin only): DEPOSIT command for token index 0
+  async depositToPlayer(playerId: [string, string], amount: bigint): Promise<unknown> {
+    return await this.sendCommand(CommandType.DEPOSIT, [BigInt(playerId[0]), BigInt(playerId[1]), 0n, amount]);
   }
 }
 
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { SlippageExceededError } from '../utils/slippage';
+import {
+  classifyError,
+  describeMarketError,
+  isUnsupportedRouteError,
+  MarketCommandError,
+  MarketError,
+  marketErrorToast,
+  toMarketCommandError,
+} from './marketErrors';
+import { ApiSchemaError } from './schemas';
+
+describe('classifyError', () => {
+  it.each([
+    ['PlayerAlreadyExists', MarketError.PLAYER_ALREADY_EXISTS],
+    ['PlayerNotExist', MarketError.PLAYER_NOT_FOUND],
+    ['InvalidNonce', MarketError.INVALID_NONCE],
+    ['nonce mismatch', MarketError.INVALID_NONCE],
+    ['MarketNotFound', MarketError.MARKET_NOT_FOUND],
+    ['MarketNotActive', MarketError.MARKET_NOT_ACTIVE],
+    ['MarketNotEnded', MarketError.MARKET_NOT_ENDED],
+    ['MarketAlreadyResolved', MarketError.MARKET_ALREADY_RESOLVED],
+    ['MarketNotResolved', MarketError.MARKET_NOT_RESOLVED],
+    ['InsufficientBalance', MarketError.INSUFFICIENT_BALANCE],
+    ['Insufficient balance', MarketError.INSUFFICIENT_BALANCE],
+    ['InsufficientShares', MarketError.INSUFFICIENT_SHARES],
+    ['InvalidBetAmount', MarketError.INVALID_AMOUNT],
+    ['InvalidSellAmount', MarketError.INVALID_AMOUNT],
+    ['AlreadyClaimed', MarketError.ALREADY_CLAIMED],
+    ['NoWinningPosition', MarketError.NO_WINNING_POSITION],
+    ['Unauthorized', MarketError.UNAUTHORIZED],
+    ['Network Error', MarketError.NETWORK],
+    ['something odd', MarketError.UNKNOWN],
+  ])('maps "%s" to %s', (message, code) => {
+    expect(classifyError(new Error(message))).toBe(code);
+  });
+
+  it('recognises client-side error classes', () => {
+    expect(classifyError(new SlippageExceededError('BUY', 90, 99))).toBe(MarketError.SLIPPAGE_EXCEEDED);
+    expect(classifyError(new ApiSchemaError('markets', []))).toBe(MarketError.UNEXPECTED_RESPONSE);
+  });
+
+  it('handles non-Error values', () => {
+    expect(classifyError('InsufficientBalance')).toBe(MarketError.INSUFFICIENT_BALANCE);
+    expect(classifyError(undefined)).toBe(MarketError.UNKNOWN);
+  });
+});
+
+describe('toMarketCommandError', () => {
+  it('keeps the backend message and attaches a code', () => {
+    const error = toMarketCommandError(new Error('MarketNotActive'));
+    expect(error).toBeInstanceOf(MarketCommandError);
+    expect(error.message).toBe('MarketNotActive');
+    expect(error.code).toBe(MarketError.MARKET_NOT_ACTIVE);
+    expect(toMarketCommandError(error)).toBe(error);
+  });
+});
+
+describe('isUnsupportedRouteError', () => {
+  it('recognises missing routes but not other failures', () => {
+    expect(isUnsupportedRouteError(new Error('Unknown route: market/1/liquidity/0/99'))).toBe(true);
+    expect(isUnsupportedRouteError(new Error('Request failed with status code 404'))).toBe(true);
+    expect(isUnsupportedRouteError(new Error('MarketNotFound'))).toBe(false);
+    expect(isUnsupportedRouteError(new Error('Network Error'))).toBe(false);
+  });
+});
+
+describe('describeMarketError', () => {
+  it('includes quote details for slippage rejections', () => {
+    const info = describeMarketError(new SlippageExceededError('SELL', 900, 950));
+    expect(info.code).toBe(MarketError.SLIPPAGE_EXCEEDED);
+    expect(info.message).toContain('900 tokens');
+    expect(info.message).toContain('950 tokens');
+  });
+});
+
+describe('marketErrorToast', () => {
+  it('combines the message and recovery hint', () => {
+    const toast = marketErrorToast(new MarketCommandError(MarketError.INSUFFICIENT_BALANCE, 'InsufficientBalance'), 'Bet Failed');
+    expect(toast).toEqual({
+      title: 'Bet Failed',
+      description: "You don't have enough balance for this transaction. Deposit more tokens or reduce the amount.",
+      variant: 'destructive',
+    });
+  });
+
+  it('accepts a code with a custom detail', () => {
+    const toast = marketErrorToast(MarketError.INSUFFICIENT_SHARES, undefined, 'You only have 5 YES shares.');
+    expect(toast.title).toBe('Insufficient Shares');
+    expect(toast.description).toBe('You only have 5 YES shares. Reduce the number of shares to sell.');
+  });
+});
@@ -0,0 +1,215 @@
+// Typed taxonomy for failures reported by the rollup server and the client-side checks around it
+import { SlippageExceededError } from '../utils/slippage';
+import { ApiSchemaError } from './schemas';
+
+export enum MarketError {
+  PLAYER_ALREADY_EXISTS = 'PLAYER_ALREADY_EXISTS',
+  PLAYER_NOT_FOUND = 'PLAYER_NOT_FOUND',
+  INVALID_NONCE = 'INVALID_NONCE',
+  MARKET_NOT_FOUND = 'MARKET_NOT_FOUND',
+  MARKET_NOT_ACTIVE = 'MARKET_NOT_ACTIVE',
+  MARKET_NOT_ENDED = 'MARKET_NOT_ENDED',
+  MARKET_ALREADY_RESOLVED = 'MARKET_ALREADY_RESOLVED',
+  MARKET_NOT_RESOLVED = 'MARKET_NOT_RESOLVED',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+  INSUFFICIENT_SHARES = 'INSUFFICIENT_SHARES',
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  ALREADY_CLAIMED = 'ALREADY_CLAIMED',
+  NO_WINNING_POSITION = 'NO_WINNING_POSITION',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  SLIPPAGE_EXCEEDED = 'SLIPPAGE_EXCEEDED',
+  UNEXPECTED_RESPONSE = 'UNEXPECTED_RESPONSE',
+  NETWORK = 'NETWORK',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface MarketErrorInfo {
+  title: string;
+  message: string;
+  hint: string;
+}
+
+const MARKET_ERROR_INFO: Record<MarketError, MarketErrorInfo> = {
+  [MarketError.PLAYER_ALREADY_EXISTS]: {
+    title: 'Player Already Registered',
+    message: 'This account is already registered.',
+    hint: 'No action needed; you can start trading.',
+  },
+  [MarketError.PLAYER_NOT_FOUND]: {
+    title: 'Player Not Registered',
+    message: 'This account is not registered with the market yet.',
+    hint: 'Reconnect to the app to register your player.',
+  },
+  [MarketError.INVALID_NONCE]: {
+    title: 'Transaction Out of Order',
+    message: 'Another transaction from this account was processed first.',
+    hint: 'Wait for pending transactions to finish, then try again.',
+  },
+  [MarketError.MARKET_NOT_FOUND]: {
+    title: 'Market Not Found',
+    message: 'This market does not exist on the server.',
+    hint: 'Return to the market list and pick another market.',
+  },
+  [MarketError.MARKET_NOT_ACTIVE]: {
+    title: 'Trading Closed',
+    message: 'This market is not open for trading right now.',
+    hint: 'Check the market schedule for when trading opens or closes.',
+  },
+  [MarketError.MARKET_NOT_ENDED]: {
+    title: 'Market Still Running',
+    message: 'Trading on this market has not ended yet.',
+    hint: 'Try again once the trading period is over.',
+  },
+  [MarketError.MARKET_ALREADY_RESOLVED]: {
+    title: 'Market Already Resolved',
+    message: 'This market has already been resolved.',
+    hint: 'Claim any winnings instead of trading.',
+  },
+  [MarketError.MARKET_NOT_RESOLVED]: {
+    title: 'Market Not Resolved',
+    message: 'Winnings can only be claimed after the market is resolved.',
+    hint: 'Check back after the resolution time.',
+  },
+  [MarketError.INSUFFICIENT_BALANCE]: {
+    title: 'Insufficient Balance',
+    message: "You don't have enough balance for this transaction.",
+    hint: 'Deposit more tokens or reduce the amount.',
+  },
+  [MarketError.INSUFFICIENT_SHARES]: {
+    title: 'Insufficient Shares',
+    message: "You don't hold enough shares for this sale.",
+    hint: 'Reduce the number of shares to sell.',
+  },
+  [MarketError.INVALID_AMOUNT]: {
+    title: 'Invalid Amount',
+    message: 'The amount was rejected.',
+    hint: 'Check the amount and try again.',
+  },
+  [MarketError.ALREADY_CLAIMED]: {
+    title: 'Already Claimed',
+    message: 'Winnings for this market were already claimed.',
+    hint: 'Check your balance; no further action is needed.',
+  },
+  [MarketError.NO_WINNING_POSITION]: {
+    title: 'Nothing to Claim',
+    message: 'You hold no shares on the winning side.',
+    hint: 'Only winning shares can be redeemed.',
+  },
+  [MarketError.UNAUTHORIZED]: {
+    title: 'Not Authorized',
+    message: 'This account is not allowed to perform this action.',
+    hint: 'Switch to the admin account and try again.',
+  },
+  [MarketError.SLIPPAGE_EXCEEDED]: {
+    title: 'Price Moved',
+    message: 'The market moved since your preview.',
+    hint: 'Review the new quote or raise your slippage tolerance.',
+  },
+  [MarketError.UNEXPECTED_RESPONSE]: {
+    title: 'Unexpected Server Response',
+    message: 'The server returned data in an unexpected format.',
+    hint: 'Refresh the page; if this persists the server may have been upgraded.',
+  },
+  [MarketError.NETWORK]: {
+    title: 'Connection Error',
+    message: 'Could not reach the server.',
+    hint: 'Check your connection and make sure the server is running.',
+  },
+  [MarketError.UNKNOWN]: {
+    title: 'Transaction Failed',
+    message: 'The transaction could not be completed.',
+    hint: 'Please try again.',
+  },
+};
+
+// Backend error strings are matched loosely since wording differs between server versions
+const MESSAGE_PATTERNS: [RegExp, MarketError][] = [
+  [/PlayerAlreadyExist/i, MarketError.PLAYER_ALREADY_EXISTS],
+  [/PlayerNot(Exist|Found)/i, MarketError.PLAYER_NOT_FOUND],
+  [/nonce/i, MarketError.INVALID_NONCE],
+  [/MarketNotFound/i, MarketError.MARKET_NOT_FOUND],
+  [/MarketNotActive|TradingClosed/i, MarketError.MARKET_NOT_ACTIVE],
+  [/MarketNotEnded/i, MarketError.MARKET_NOT_ENDED],
+  [/MarketAlreadyResolved/i, MarketError.MARKET_ALREADY_RESOLVED],
+  [/MarketNotResolved/i, MarketError.MARKET_NOT_RESOLVED],
+  [/Insufficient\s*Balance|NotEnoughBalance|BalanceNotEnough/i, MarketError.INSUFFICIENT_BALANCE],
+  [/Insufficient\s*Shares|NotEnoughShares/i, MarketError.INSUFFICIENT_SHARES],
+  [/Invalid(Bet|Sell|Deposit|Withdraw)?Amount/i, MarketError.INVALID_AMOUNT],
+  [/AlreadyClaimed/i, MarketError.ALREADY_CLAIMED],
+  [/NoWinningPosition|NothingToClaim/i, MarketError.NO_WINNING_POSITION],
+  [/Unauthori[sz]ed|PermissionDenied|NotAdmin/i, MarketError.UNAUTHORIZED],
+  [/Network Error|Failed to fetch|No response was received|ECONNREFUSED|timeout/i, MarketError.NETWORK],
+];
+
+// A rollup command rejected by the server, carrying the original backend message
+export class MarketCommandError extends Error {
+  readonly code: MarketError;
+
+  constructor(code: MarketError, message: string) {
+    super(message);
+    this.name = 'MarketCommandError';
+    this.code = code;
+  }
+}
+
+export function classifyError(error: unknown): MarketError {
+  if (error instanceof MarketCommandError) {
+    return error.code;
+  }
+  if (error instanceof SlippageExceededError) {
+    return MarketError.SLIPPAGE_EXCEEDED;
+  }
+  if (error instanceof ApiSchemaError) {
+    return MarketError.UNEXPECTED_RESPONSE;
+  }
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return match ? match[1] : MarketError.UNKNOWN;
+}
+
+// Wrap a raw backend failure so callers can branch on its code
+export function toMarketCommandError(error: unknown): MarketCommandError {
+  if (error instanceof MarketCommandError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new MarketCommandError(classifyError(error), message);
+}
+
+// Optional query routes are missing on older servers: the mock answers "Unknown route",
+// an HTTP server with a 404
+export function isUnsupportedRouteError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /Unknown route|status code 404/i.test(message);
+}
+
+export function getMarketErrorInfo(code: MarketError): MarketErrorInfo {
+  return MARKET_ERROR_INFO[code];
+}
+
+// User-facing description; slippage errors carry their own quote details
+export function describeMarketError(error: unknown): MarketErrorInfo & { code: MarketError } {
+  const code = classifyError(error);
+  const info = getMarketErrorInfo(code);
+  if (error instanceof SlippageExceededError) {
+    const unit = error.type === 'BUY' ? 'shares' : 'tokens';
+    return {
+      ...info,
+      code,
+      message: `${info.message} You would now receive ${error.quoted.toLocaleString()} ${unit}, below your minimum of ${error.minimum.toLocaleString()} ${unit}.`,
+    };
+  }
+  return { ...info, code };
+}
+
+// Destructive toast props for a failure; `title` names the action that failed
+export function marketErrorToast(error: unknown | MarketError, title?: string, detail?: string) {
+  const info = typeof error === 'string' && error in MARKET_ERROR_INFO
+    ? { ...getMarketErrorInfo(error as MarketError), code: error as MarketError }
+    : describeMarketError(error);
+  return {
+    title: title ?? info.title,
+    description: `${detail ?? info.message} ${info.hint}`,
+    variant: 'destructive' as const,
+  };
+}
@@ -0,0 +1,154 @@
+import { bnToHexLe, PrivateKey } from 'delphinus-curves/src/altjubjub';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCommand } from 'zkwasm-minirollup-rpc';
+import { CommandType } from '../types/market';
+
+type MockModule = typeof import('./mockRpc');
+type MockRpc = InstanceType<MockModule['MockZKWasmAppRpc']>;
+
+const PLAYER_KEY = '1234';
+const ADMIN_KEY = '5678';
+// Longer than the mock's transaction delay, shorter than one counter
+const TX_SETTLE_MS = 1000;
+// Seed market 2 opens 60 counters in and stops trading 8640 counters in
+const MARKET_ID = 2n;
+const MARKET_OPENS_IN = 60;
+const MARKET_ENDS_IN = 8640;
+
+const pubkeyHex = (prikey: string) => bnToHexLe(PrivateKey.fromString(prikey).publicKey.key.x.v);
+
+// The admin key is read when the module loads, so each test imports a fresh copy with its own chain
+const loadMock = async (adminKey?: string): Promise<MockModule> => {
+  vi.resetModules();
+  if (adminKey) {
+    vi.stubEnv('VITE_MOCK_ADMIN_PUBKEY', pubkeyHex(adminKey));
+  }
+  return import('./mockRpc');
+};
+
+describe('MockZKWasmAppRpc commands', () => {
+  let mock: MockModule;
+  let rpc: MockRpc;
+  const nonces = new Map<string, bigint>();
+
+  const send = async (prikey: string, command: CommandType, params: bigint[] = [], nonce = nonces.get(prikey) ?? 0n) => {
+    const result = rpc.sendTransaction(createCommand(nonce, BigInt(command), params), prikey);
+    // Rejections are asserted by the caller once the delay has run
+    result.catch(() => undefined);
+    await vi.advanceTimersByTimeAsync(TX_SETTLE_MS);
+    await result;
+    nonces.set(prikey, nonce + 1n);
+  };
+
+  const install = async (prikey: string) => {
+    const result = rpc.sendTransaction(createCommand(0n, BigInt(CommandType.INSTALL_PLAYER), []), prikey);
+    await vi.advanceTimersByTimeAsync(TX_SETTLE_MS);
+    await result;
+  };
+
+  const playerState = async (prikey: string) => {
+    const response = (await rpc.queryState(prikey)) as { data: string };
+    return JSON.parse(response.data).player as { nonce: string; data: { balance: string } };
+  };
+
+  const advanceCounters = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      mock.advanceMockCounter();
+    }
+  };
+
+  const setup = async (adminKey?: string) => {
+    mock = await loadMock(adminKey);
+    rpc = new mock.MockZKWasmAppRpc();
+    nonces.clear();
+    await install(PLAYER_KEY);
+    await install(ADMIN_KEY);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    mock.resetMockChain();
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  describe('nonce check', () => {
+    beforeEach(() => setup());
+
+    it('accepts commands only with the player\'s next nonce', async () => {
+      await expect(send(PLAYER_KEY, CommandType.TICK, [], 1n)).rejects.toThrow('InvalidNonce');
+      await send(PLAYER_KEY, CommandType.TICK);
+      await expect(send(PLAYER_KEY, CommandType.TICK, [], 0n)).rejects.toThrow('InvalidNonce');
+      await send(PLAYER_KEY, CommandType.TICK);
+      expect((await playerState(PLAYER_KEY)).nonce).toBe('2');
+    });
+
+    it('leaves the nonce unused when a command is rejected', async () => {
+      await expect(send(PLAYER_KEY, CommandType.CLAIM, [1n])).rejects.toThrow('MarketNotResolved');
+      expect((await playerState(PLAYER_KEY)).nonce).toBe('0');
+    });
+
+    it('rejects commands from players that are not installed', async () => {
+      await expect(send('9abc', CommandType.TICK)).rejects.toThrow('PlayerNotExist');
+    });
+  });
+
+  describe('admin gate', () => {
+    it('lets anyone run admin commands when no admin key is configured', async () => {
+      await setup();
+      await send(PLAYER_KEY, CommandType.WITHDRAW_FEES, [1n]);
+    });
+
+    it('rejects admin commands from other keys once an admin key is configured', async () => {
+      await setup(ADMIN_KEY);
+      await expect(send(PLAYER_KEY, CommandType.WITHDRAW_FEES, [1n])).rejects.toThrow('Unauthorized');
+      await send(ADMIN_KEY, CommandType.WITHDRAW_FEES, [1n]);
+    });
+
+    it('still lets other keys trade', async () => {
+      await setup(ADMIN_KEY);
+      advanceCounters(MARKET_OPENS_IN);
+      await send(PLAYER_KEY, CommandType.BET, [MARKET_ID, 1n, 1000n]);
+    });
+  });
+
+  describe('resolve and claim', () => {
+    beforeEach(async () => {
+      await setup(ADMIN_KEY);
+      advanceCounters(MARKET_OPENS_IN);
+      await send(PLAYER_KEY, CommandType.BET, [MARKET_ID, 1n, 10000n]);
+    });
+
+    it('refuses to resolve before trading ends', async () => {
+      await expect(send(ADMIN_KEY, CommandType.RESOLVE, [MARKET_ID, 1n])).rejects.toThrow('MarketNotEnded');
+    });
+
+    it('requires both the market id and the outcome', async () => {
+      advanceCounters(MARKET_ENDS_IN);
+      await expect(send(ADMIN_KEY, CommandType.RESOLVE, [1n])).rejects.toThrow('InvalidParams');
+    });
+
+    it('pays winning shares once after resolution', async () => {
+      await expect(send(PLAYER_KEY, CommandType.CLAIM, [MARKET_ID])).rejects.toThrow('MarketNotResolved');
+      advanceCounters(MARKET_ENDS_IN);
+      await send(ADMIN_KEY, CommandType.RESOLVE, [MARKET_ID, 1n]);
+      await expect(send(ADMIN_KEY, CommandType.RESOLVE, [MARKET_ID, 0n])).rejects.toThrow('MarketAlreadyResolved');
+
+      const before = BigInt((await playerState(PLAYER_KEY)).data.balance);
+      await send(PLAYER_KEY, CommandType.CLAIM, [MARKET_ID]);
+      const after = BigInt((await playerState(PLAYER_KEY)).data.balance);
+      // 9900 net of fees into 800k YES / 1.2M NO: 800_000 - floor(9.6e11 / 1_209_900) shares
+      expect(after - before).toBe(6546n);
+      await expect(send(PLAYER_KEY, CommandType.CLAIM, [MARKET_ID])).rejects.toThrow('AlreadyClaimed');
+    });
+
+    it('pays nothing to the losing side', async () => {
+      advanceCounters(MARKET_ENDS_IN);
+      await send(ADMIN_KEY, CommandType.RESOLVE, [MARKET_ID, 0n]);
+      await expect(send(PLAYER_KEY, CommandType.CLAIM, [MARKET_ID])).rejects.toThrow('NoWinningPosition');
+    });
+  });
+});
@@ -0,0 +1,558 @@
+// In-process stand-in for the zkWasm rollup server, used for offline development and tests.
+// Enable it with VITE_ZKWASM_MOCK_RPC=true; every PredictionMarketAPI instance then shares one
+// simulated chain whose counter advances every 5 seconds, like the real sequencer.
+import { PrivateKey } from 'delphinus-curves/src/altjubjub';
+import { ZKWasmAppRpc } from 'zkwasm-minirollup-rpc';
+import { CommandType } from '../types/market';
+import { hexLeToLimbs, isAdminKey } from '../utils/admin';
+import { MarketCalculations } from '../utils/market-calculations';
+import { playerIdFromPubkey, playerKeyLimbs } from '../utils/player-key';
+
+export const MOCK_COUNTER_INTERVAL_MS = 5000;
+export const MOCK_INITIAL_BALANCE = 1000000n;
+const MOCK_TX_DELAY_MS = 300;
+const LIQUIDITY_HISTORY_WINDOW = 100;
+const MOCK_BACKFILL_COUNTERS = 2000;
+const RECENT_TRANSACTIONS_LIMIT = 20;
+// Little-endian hex public key allowed to run admin commands; when unset anyone may
+const MOCK_ADMIN_PUBKEY: string | undefined = import.meta.env.VITE_MOCK_ADMIN_PUBKEY;
+const ADMIN_COMMANDS = new Set<number>([CommandType.RESOLVE, CommandType.WITHDRAW_FEES, CommandType.DEPOSIT]);
+
+interface MockMarket {
+  marketId: bigint;
+  titleString: string;
+  yesLiquidity: bigint;
+  noLiquidity: bigint;
+  prizePool: bigint;
+  totalVolume: bigint;
+  totalFeesCollected: bigint;
+  resolved: boolean;
+  outcome: boolean | null;
+  startTime: number;
+  endTime: number;
+  resolutionTime: number;
+}
+
+interface MockPosition {
+  yesShares: bigint;
+  noShares: bigint;
+  claimed: boolean;
+}
+
+interface MockPlayer {
+  pid: [string, string];
+  nonce: bigint;
+  balance: bigint;
+  positions: Map<string, MockPosition>;
+}
+
+interface MockTransaction {
+  index: bigint;
+  pid: [string, string];
+  marketId: string;
+  betType: number;
+  amount: bigint;
+  shares: bigint;
+  counter: number;
+  transactionType: 'BET_YES' | 'BET_NO' | 'SELL_YES' | 'SELL_NO';
+  originalBetType: number;
+}
+
+interface MockLiquiditySnapshot {
+  counter: number;
+  yesLiquidity: bigint;
+  noLiquidity: bigint;
+}
+
+interface MockChainState {
+  counter: number;
+  // Wall-clock time (ms) the simulated counter 0 corresponds to
+  genesisTime: number;
+  txcounter: number;
+  nextMarketId: bigint;
+  markets: Map<string, MockMarket>;
+  players: Map<string, MockPlayer>;
+  transactions: MockTransaction[];
+  liquidityHistory: Map<string, MockLiquiditySnapshot[]>;
+}
+
+// Deterministic price drift along the seed pool's constant product, ending at the seed
+// liquidity, so markets that started before the mock have older history to page through
+const backfillHistory = (market: MockMarket, counter: number): MockLiquiditySnapshot[] => {
+  const k = market.yesLiquidity * market.noLiquidity;
+  const history: MockLiquiditySnapshot[] = [];
+  for (let c = Math.max(0, market.startTime, counter - MOCK_BACKFILL_COUNTERS); c < counter; c++) {
+    const drift = 1 + 0.15 * Math.sin((counter - c) / 200) + 0.05 * Math.sin((counter - c) / 37);
+    const yesLiquidity = BigInt(Math.round(Number(market.yesLiquidity) * drift));
+    history.push({ counter: c, yesLiquidity, noLiquidity: k / yesLiquidity });
+  }
+  return history;
+};
+
+const createSeedState = (): MockChainState => {
+  const counter = 1000;
+  const seedMarkets: MockMarket[] = [
+    {
+      marketId: 1n,
+      titleString: 'Will BTC close above $100k this month?',
+      yesLiquidity: 1000000n,
+      noLiquidity: 1000000n,
+      prizePool: 0n,
+      totalVolume: 0n,
+      totalFeesCollected: 0n,
+      resolved: false,
+      outcome: null,
+      startTime: counter - 100,
+      endTime: counter + 17280,
+      resolutionTime: counter + 17400,
+    },
+    {
+      marketId: 2n,
+      titleString: 'Will ETH flip SOL in daily volume next week?',
+      yesLiquidity: 800000n,
+      noLiquidity: 1200000n,
+      prizePool: 0n,
+      totalVolume: 0n,
+      totalFeesCollected: 0n,
+      resolved: false,
+      outcome: null,
+      startTime: counter + 60,
+      endTime: counter + 8640,
+      resolutionTime: counter + 8760,
+    },
+    {
+      marketId: 3n,
+      titleString: 'Did DOGE hit $1 in 2024?',
+      yesLiquidity: 1500000n,
+      noLiquidity: 600000n,
+      prizePool: 0n,
+      totalVolume: 250000n,
+      totalFeesCollected: 2500n,
+      resolved: true,
+      outcome: false,
+      startTime: counter - 20000,
+      endTime: counter - 2000,
+      resolutionTime: counter - 1000,
+    },
+  ];
+
+  const markets = new Map<string, MockMarket>();
+  const liquidityHistory = new Map<string, MockLiquiditySnapshot[]>();
+  for (const market of seedMarkets) {
+    markets.set(market.marketId.toString(), market);
+    liquidityHistory.set(market.marketId.toString(), [...backfillHistory(market, counter), {
+      counter,
+      yesLiquidity: market.yesLiquidity,
+      noLiquidity: market.noLiquidity,
+    }]);
+  }
+
+  return {
+    counter,
+    genesisTime: Date.now() - counter * MOCK_COUNTER_INTERVAL_MS,
+    txcounter: 0,
+    nextMarketId: BigInt(seedMarkets.length + 1),
+    markets,
+    players: new Map(),
+    transactions: [],
+    liquidityHistory,
+  };
+};
+
+let chain: MockChainState = createSeedState();
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+
+// Advance the counter by one and snapshot liquidity, as the sequencer's TICK does
+export const advanceMockCounter = () => {
+  chain.counter += 1;
+  for (const market of chain.markets.values()) {
+    const history = chain.liquidityHistory.get(market.marketId.toString()) ?? [];
+    history.push({ counter: chain.counter, yesLiquidity: market.yesLiquidity, noLiquidity: market.noLiquidity });
+    chain.liquidityHistory.set(market.marketId.toString(), history);
+  }
+};
+
+const ensureTicking = () => {
+  if (!tickTimer) {
+    tickTimer = setInterval(advanceMockCounter, MOCK_COUNTER_INTERVAL_MS);
+  }
+};
+
+// Reset the simulated chain to its seed state and stop the counter (used by tests)
+export const resetMockChain = () => {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+  chain = createSeedState();
+};
+
+// Derive the player id the same way MarketContext does from the L2 public key
+const pubkeyFromKey = (prikey: string) => PrivateKey.fromString(prikey).publicKey.key.x.v;
+
+const pubkeyLimbsFromKey = (prikey: string): BigUint64Array => playerKeyLimbs(pubkeyFromKey(prikey));
+
+const playerIdFromKey = (prikey: string): [string, string] => playerIdFromPubkey(pubkeyFromKey(prikey));
+
+const playerKey = (pid: [string, string] | string[]) => `${pid[0]}/${pid[1]}`;
+
+const getPosition = (player: MockPlayer, marketId: string): MockPosition => {
+  let position = player.positions.get(marketId);
+  if (!position) {
+    position = { yesShares: 0n, noShares: 0n, claimed: false };
+    player.positions.set(marketId, position);
+  }
+  return position;
+};
+
+const serializeMarket = (market: MockMarket) => ({
+  marketId: market.marketId.toString(),
+  titleString: market.titleString,
+  yesLiquidity: market.yesLiquidity.toString(),
+  noLiquidity: market.noLiquidity.toString(),
+  prizePool: market.prizePool.toString(),
+  totalVolume: market.totalVolume.toString(),
+  totalFeesCollected: market.totalFeesCollected.toString(),
+  resolved: market.resolved,
+  outcome: market.outcome,
+  startTime: market.startTime.toString(),
+  endTime: market.endTime.toString(),
+  resolutionTime: market.resolutionTime.toString(),
+});
+
+const serializeTransaction = (tx: MockTransaction) => ({
+  index: tx.index.toString(),
+  pid: tx.pid,
+  betType: tx.betType,
+  amount: tx.amount.toString(),
+  shares: tx.shares.toString(),
+  counter: tx.counter.toString(),
+  transactionType: tx.transactionType,
+  originalBetType: tx.originalBetType,
+});
+
+const ok = (data: unknown) => ({ success: true, data });
+const notFound = (message: string) => ({ success: false, message });
+
+const latest = (transactions: MockTransaction[], count: number) =>
+  transactions.slice(-count).reverse().map(serializeTransaction);
+
+const requireActiveMarket = (marketId: string): MockMarket => {
+  const market = chain.markets.get(marketId);
+  if (!market) throw new Error('MarketNotFound');
+  if (market.resolved) throw new Error('MarketAlreadyResolved');
+  if (chain.counter < market.startTime || chain.counter >= market.endTime) {
+    throw new Error('MarketNotActive');
+  }
+  return market;
+};
+
+const recordTrade = (
+  player: MockPlayer,
+  market: MockMarket,
+  side: 0 | 1,
+  isSell: boolean,
+  amount: bigint,
+  shares: bigint
+) => {
+  const transactionType = `${isSell ? 'SELL' : 'BET'}_${side === 1 ? 'YES' : 'NO'}` as MockTransaction['transactionType'];
+  chain.transactions.push({
+    index: BigInt(chain.transactions.length + 1),
+    pid: player.pid,
+    marketId: market.marketId.toString(),
+    betType: isSell ? (side === 1 ? 11 : 12) : side,
+    amount,
+    shares,
+    counter: chain.counter,
+    transactionType,
+    originalBetType: side,
+  });
+};
+
+const handleBet = (player: MockPlayer, [marketIdParam, betTypeParam, amountParam]: bigint[]) => {
+  const market = requireActiveMarket(marketIdParam.toString());
+  const side = Number(betTypeParam) === 1 ? 1 : 0;
+  if (amountParam <= 0n) throw new Error('InvalidBetAmount');
+  if (player.balance < amountParam) throw new Error('InsufficientBalance');
+
+  const fee = BigInt(MarketCalculations.calculateFees(Number(amountParam)));
+  const netAmount = amountParam - fee;
+  const shares = BigInt(MarketCalculations.calculateSharesForBet(side, Number(netAmount), market.yesLiquidity, market.noLiquidity));
+  if (shares <= 0n) throw new Error('InvalidBetAmount');
+
+  const k = market.yesLiquidity * market.noLiquidity;
+  if (side === 1) {
+    market.noLiquidity += netAmount;
+    market.yesLiquidity = k / market.noLiquidity;
+  } else {
+    market.yesLiquidity += netAmount;
+    market.noLiquidity = k / market.yesLiquidity;
+  }
+  market.prizePool += netAmount;
+  market.totalVolume += amountParam;
+  market.totalFeesCollected += fee;
+
+  const position = getPosition(player, market.marketId.toString());
+  if (side === 1) position.yesShares += shares; else position.noShares += shares;
+  player.balance -= amountParam;
+  recordTrade(player, market, side, false, amountParam, shares);
+};
+
+const handleSell = (player: MockPlayer, [marketIdParam, sellTypeParam, sharesParam]: bigint[]) => {
+  const market = requireActiveMarket(marketIdParam.toString());
+  const side = Number(sellTypeParam) === 1 ? 1 : 0;
+  const position = getPosition(player, market.marketId.toString());
+  const held = side === 1 ? position.yesShares : position.noShares;
+  if (sharesParam <= 0n) throw new Error('InvalidSellAmount');
+  if (held < sharesParam) throw new Error('InsufficientShares');
+
+  const grossAmount = BigInt(MarketCalculations.calculateAmountForShares(side, Number(sharesParam), market.yesLiquidity, market.noLiquidity));
+  const fee = BigInt(MarketCalculations.calculateFees(Number(grossAmount)));
+  const netAmount = grossAmount - fee;
+  if (netAmount <= 0n) throw new Error('InvalidSellAmount');
+
+  const k = market.yesLiquidity * market.noLiquidity;
+  if (side === 1) {
+    market.yesLiquidity += sharesParam;
+    market.noLiquidity = k / market.yesLiquidity;
+  } else {
+    market.noLiquidity += sharesParam;
+    market.yesLiquidity = k / market.noLiquidity;
+  }
+  market.prizePool -= grossAmount;
+  market.totalVolume += grossAmount;
+  market.totalFeesCollected += fee;
+
+  if (side === 1) position.yesShares -= sharesParam; else position.noShares -= sharesParam;
+  player.balance += netAmount;
+  recordTrade(player, market, side, true, netAmount, sharesParam);
+};
+
+const handleClaim = (player: MockPlayer, [marketIdParam]: bigint[]) => {
+  const market = chain.markets.get(marketIdParam.toString());
+  if (!market) throw new Error('MarketNotFound');
+  if (!market.resolved) throw new Error('MarketNotResolved');
+  const position = getPosition(player, market.marketId.toString());
+  if (position.claimed) throw new Error('AlreadyClaimed');
+  const payout = market.outcome ? position.yesShares : position.noShares;
+  if (payout === 0n) throw new Error('NoWinningPosition');
+  position.claimed = true;
+  player.balance += payout;
+};
+
+const handleResolve = ([marketIdParam, outcomeParam]: bigint[]) => {
+  if (outcomeParam === undefined) throw new Error('InvalidParams');
+  const market = chain.markets.get(marketIdParam.toString());
+  if (!market) throw new Error('MarketNotFound');
+  if (market.resolved) throw new Error('MarketAlreadyResolved');
+  if (chain.counter < market.endTime) throw new Error('MarketNotEnded');
+  market.resolved = true;
+  market.outcome = outcomeParam === 1n;
+};
+
+const handleWithdrawFees = (params: bigint[]) => {
+  const targets = params.length > 0
+    ? [chain.markets.get(params[0].toString())]
+    : Array.from(chain.markets.values());
+  for (const market of targets) {
+    if (!market) throw new Error('MarketNotFound');
+    market.totalFeesCollected = 0n;
+  }
+};
+
+const handleDeposit = ([pid1, pid2, , amount]: bigint[]) => {
+  const target = chain.players.get(playerKey([pid1.toString(), pid2.toString()]));
+  if (!target) throw new Error('PlayerNotExist');
+  target.balance += amount;
+};
+
+const handleWithdraw = (player: MockPlayer, params: bigint[]) => {
+  // The first withdraw limb packs the high address bits above a 32-bit amount
+  const amount = params[0] & 0xffffffffn;
+  if (player.balance < amount) throw new Error('InsufficientBalance');
+  player.balance -= amount;
+};
+
+const executeCommand = (prikey: string, cmd: BigUint64Array) => {
+  const header = cmd[0];
+  const command = Number(header & 0xffn);
+  const nonce = header >> 16n;
+  const params = Array.from(cmd.slice(1));
+  const pid = playerIdFromKey(prikey);
+  const key = playerKey(pid);
+
+  if (command === CommandType.INSTALL_PLAYER) {
+    if (chain.players.has(key)) throw new Error('PlayerAlreadyExists');
+    chain.players.set(key, { pid, nonce: 0n, balance: MOCK_INITIAL_BALANCE, positions: new Map() });
+    return;
+  }
+
+  const player = chain.players.get(key);
+  if (!player) throw new Error('PlayerNotExist');
+  if (nonce !== player.nonce) throw new Error('InvalidNonce');
+  if (MOCK_ADMIN_PUBKEY && ADMIN_COMMANDS.has(command) && !isAdminKey(hexLeToLimbs(MOCK_ADMIN_PUBKEY), pubkeyLimbsFromKey(prikey))) {
+    throw new Error('Unauthorized');
+  }
+
+  switch (command) {
+    case CommandType.TICK:
+      break;
+    case CommandType.WITHDRAW:
+      handleWithdraw(player, params);
+      break;
+    case CommandType.DEPOSIT:
+      handleDeposit(params);
+      break;
+    case CommandType.BET:
+      handleBet(player, params);
+      break;
+    case CommandType.SELL:
+      handleSell(player, params);
+      break;
+    case CommandType.RESOLVE:
+      handleResolve(params);
+      break;
+    case CommandType.CLAIM:
+      handleClaim(player, params);
+      break;
+    case CommandType.WITHDRAW_FEES:
+      handleWithdrawFees(params);
+      break;
+    default:
+      throw new Error('UnsupportedCommand');
+  }
+  player.nonce += 1n;
+};
+
+const serializeLiquidity = (entry: MockLiquiditySnapshot) => ({
+  counter: entry.counter.toString(),
+  yesLiquidity: entry.yesLiquidity.toString(),
+  noLiquidity: entry.noLiquidity.toString(),
+});
+
+const routeQuery = (path: string) => {
+  const segments = path.split('/').filter(Boolean);
+  const [head, ...rest] = segments;
+
+  if (head === 'markets' && rest.length === 0) {
+    return ok(Array.from(chain.markets.values()).map(serializeMarket));
+  }
+
+  if (head === 'recent' && rest.length === 1) {
+    return ok(latest(chain.transactions, Number(rest[0]) || RECENT_TRANSACTIONS_LIMIT));
+  }
+
+  if (head === 'market' && rest.length >= 1) {
+    const market = chain.markets.get(rest[0]);
+    if (!market) return notFound('Market not found');
+    if (rest.length === 1) return ok(serializeMarket(market));
+    if (rest[1] === 'liquidity') {
+      const history = chain.liquidityHistory.get(rest[0]) ?? [];
+      if (rest.length === 4) {
+        // Ranged query: oldest snapshots first, capped at one page
+        const [from, to] = [Number(rest[2]), Number(rest[3])];
+        const inRange = history.filter((entry) => entry.counter >= from && entry.counter <= to);
+        return ok(inRange.slice(0, LIQUIDITY_HISTORY_WINDOW).map(serializeLiquidity));
+      }
+      return ok(history.slice(-LIQUIDITY_HISTORY_WINDOW).map(serializeLiquidity));
+    }
+    if (rest[1] === 'recent') {
+      return ok(latest(chain.transactions.filter((tx) => tx.marketId === rest[0]), RECENT_TRANSACTIONS_LIMIT));
+    }
+  }
+
+  if (head === 'player' && rest.length >= 3) {
+    const [pid1, pid2, ...tail] = rest;
+    const ownTransactions = chain.transactions.filter((tx) => tx.pid[0] === pid1 && tx.pid[1] === pid2);
+    if (tail.length === 1 && tail[0] === 'recent') {
+      return ok(latest(ownTransactions, RECENT_TRANSACTIONS_LIMIT));
+    }
+    if (tail[0] === 'market' && tail.length >= 2) {
+      const marketId = tail[1];
+      if (!chain.markets.has(marketId)) return notFound('Market not found');
+      if (tail.length === 2) {
+        const position = chain.players.get(playerKey([pid1, pid2]))?.positions.get(marketId);
+        return ok({
+          yesShares: (position?.yesShares ?? 0n).toString(),
+          noShares: (position?.noShares ?? 0n).toString(),
+          claimed: position?.claimed ?? false,
+        });
+      }
+      if (tail[2] === 'recent') {
+        return ok(latest(ownTransactions.filter((tx) => tx.marketId === marketId), RECENT_TRANSACTIONS_LIMIT));
+      }
+    }
+  }
+
+  return notFound(`Unknown route: ${path}`);
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Mirrors the subset of ZKWasmAppRpc used by PredictionMarketAPI and utils/transaction
+export class MockZKWasmAppRpc {
+  constructor() {
+    ensureTicking();
+  }
+
+  async sendTransaction(cmd: BigUint64Array, prikey: string): Promise<unknown> {
+    await delay(MOCK_TX_DELAY_MS);
+    executeCommand(prikey, cmd);
+    chain.txcounter += 1;
+    return { success: true, counter: chain.counter };
+  }
+
+  async queryState(prikey: string): Promise<unknown> {
+    let player: MockPlayer | undefined;
+    try {
+      player = chain.players.get(playerKey(playerIdFromKey(prikey)));
+    } catch (error) {
+      // Read-only callers use a dummy key that is not a valid curve scalar
+      player = undefined;
+    }
+    return {
+      success: true,
+      data: JSON.stringify({
+        player: player ? {
+          nonce: player.nonce.toString(),
+          data: { balance: player.balance.toString() },
+        } : null,
+        state: {
+          counter: chain.counter,
+          market_ids: Array.from(chain.markets.keys()).map(Number),
+          next_market_id: Number(chain.nextMarketId),
+          total_players: chain.players.size,
+          txsize: chain.transactions.length,
+          txcounter: chain.txcounter,
+        },
+      }),
+    };
+  }
+
+  async queryConfig(): Promise<unknown> {
+    return {
+      success: true,
+      data: JSON.stringify({
+        mock: true,
+        genesis_timestamp: Math.floor(chain.genesisTime / 1000),
+        counter_interval: MOCK_COUNTER_INTERVAL_MS / 1000,
+        ...(MOCK_ADMIN_PUBKEY ? { admin_pubkey: MOCK_ADMIN_PUBKEY } : {}),
+      }),
+    };
+  }
+
+  async queryData(path: string): Promise<unknown> {
+    return routeQuery(path);
+  }
+}
+
+export const isMockRpcEnabled = (): boolean => import.meta.env.VITE_ZKWASM_MOCK_RPC === 'true';
+
+// Create the rollup RPC client, substituting the in-process mock when it is enabled
+export const createAppRpc = (serverUrl: string): ZKWasmAppRpc => {
+  if (isMockRpcEnabled()) {
+    console.log('Using in-process mock rollup server instead of', serverUrl);
+    return new MockZKWasmAppRpc() as unknown as ZKWasmAppRpc;
+  }
+  return new ZKWasmAppRpc(serverUrl);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isNonceMismatchError, NonceManager } from './nonceManager';
+
+// Minimal stand-in for the rollup: accepts a command only with the expected nonce
+const createChain = (startNonce = 0n) => {
+  const chain = {
+    nonce: startNonce,
+    accepted: [] as bigint[],
+    fetchNonce: vi.fn(async () => chain.nonce),
+    send: async (nonce: bigint) => {
+      await Promise.resolve();
+      if (nonce !== chain.nonce) {
+        throw new Error('InvalidNonce');
+      }
+      chain.accepted.push(nonce);
+      chain.nonce += 1n;
+      return nonce;
+    },
+  };
+  return chain;
+};
+
+describe('isNonceMismatchError', () => {
+  it('recognises nonce errors regardless of wording', () => {
+    expect(isNonceMismatchError(new Error('InvalidNonce'))).toBe(true);
+    expect(isNonceMismatchError(new Error('nonce mismatch'))).toBe(true);
+    expect(isNonceMismatchError('Invalid nonce')).toBe(true);
+    expect(isNonceMismatchError(new Error('InsufficientBalance'))).toBe(false);
+  });
+});
+
+describe('NonceManager', () => {
+  it('gives concurrent commands consecutive nonces', async () => {
+    const chain = createChain(7n);
+    const manager = new NonceManager(chain.fetchNonce);
+    const results = await Promise.all([manager.run(chain.send), manager.run(chain.send), manager.run(chain.send)]);
+    expect(results).toEqual([7n, 8n, 9n]);
+    expect(chain.fetchNonce).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs commands one at a time', async () => {
+    const manager = new NonceManager(async () => 0n);
+    const order: string[] = [];
+    const slow = manager.run(async () => {
+      order.push('slow:start');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push('slow:end');
+    });
+    const fast = manager.run(async () => {
+      order.push('fast');
+    });
+    await Promise.all([slow, fast]);
+    expect(order).toEqual(['slow:start', 'slow:end', 'fast']);
+  });
+
+  it('prepares a command only after the commands queued before it', async () => {
+    const chain = createChain(2n);
+    const manager = new NonceManager(chain.fetchNonce);
+    const seen: bigint[] = [];
+    const first = manager.run(chain.send);
+    const second = manager.run(chain.send, async () => {
+      seen.push(chain.nonce);
+    });
+    expect(await Promise.all([first, second])).toEqual([2n, 3n]);
+    expect(seen).toEqual([3n]);
+  });
+
+  it('refreshes the nonce and retries after a mismatch', async () => {
+    const chain = createChain(3n);
+    const manager = new NonceManager(chain.fetchNonce);
+    await manager.run(chain.send);
+    // Another client advanced the nonce behind the manager's back
+    chain.nonce += 2n;
+    await expect(manager.run(chain.send)).resolves.toBe(6n);
+    expect(chain.fetchNonce).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the retry limit', async () => {
+    const manager = new NonceManager(async () => 0n, 2);
+    const send = vi.fn(async () => {
+      throw new Error('InvalidNonce');
+    });
+    await expect(manager.run(send)).rejects.toThrow('InvalidNonce');
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other failures but resyncs the nonce', async () => {
+    const fetchNonce = vi.fn(async () => 5n);
+    const manager = new NonceManager(fetchNonce);
+    const failing = vi.fn(async () => {
+      throw new Error('InsufficientBalance');
+    });
+    await expect(manager.run(failing)).rejects.toThrow('InsufficientBalance');
+    expect(failing).toHaveBeenCalledTimes(1);
+    await expect(manager.run(async (nonce) => nonce)).resolves.toBe(5n);
+    expect(fetchNonce).toHaveBeenCalledTimes(2);
+  });
+});
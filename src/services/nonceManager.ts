@@ -0,0 +1,62 @@
+// Serializes outgoing commands for one player and hands out nonces locally,
+// so back-to-back commands do not read the same nonce from the server.
+import { classifyError, MarketError } from './marketErrors';
+
+export const DEFAULT_MAX_NONCE_RETRIES = 2;
+
+// Rollup servers report a stale nonce as e.g. "InvalidNonce" or "nonce mismatch"
+export function isNonceMismatchError(error: unknown): boolean {
+  return classifyError(error) === MarketError.INVALID_NONCE;
+}
+
+export class NonceManager {
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextNonce: bigint | null = null;
+
+  constructor(
+    private readonly fetchNonce: () => Promise<bigint>,
+    private readonly maxRetries = DEFAULT_MAX_NONCE_RETRIES
+  ) {}
+
+  // Queue a command; `send` receives the nonce to sign with and is retried on nonce mismatch.
+  // `prepare` runs once the command reaches the front of the queue, before its nonce is reserved
+  run<T>(send: (nonce: bigint) => Promise<T>, prepare?: () => Promise<void>): Promise<T> {
+    const result = this.queue.then(async () => {
+      await prepare?.();
+      return this.execute(send);
+    });
+    // Keep the queue alive after a failed command
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Forget the local nonce so the next command re-reads it from the server
+  invalidate() {
+    this.nextNonce = null;
+  }
+
+  private async reserve(): Promise<bigint> {
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.fetchNonce();
+    }
+    const nonce = this.nextNonce;
+    this.nextNonce = nonce + 1n;
+    return nonce;
+  }
+
+  private async execute<T>(send: (nonce: bigint) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const nonce = await this.reserve();
+      try {
+        return await send(nonce);
+      } catch (error) {
+        // A rejected command may or may not have consumed its nonce; resync either way
+        this.invalidate();
+        if (!isNonceMismatchError(error) || attempt >= this.maxRetries) {
+          throw error;
+        }
+        console.warn(`Nonce ${nonce} rejected, retrying with a refreshed nonce (${attempt + 1}/${this.maxRetries})`);
+      }
+    }
+  }
+}
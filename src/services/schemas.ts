@@ -0,0 +1,168 @@
+// Zod schemas for every payload returned by the zkWasm rollup server
+import { z } from 'zod';
+
+// Thrown when the rollup server answers with a payload that does not match the expected schema
+export class ApiSchemaError extends Error {
+  readonly route: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(route: string, issues: z.ZodIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Unexpected response from ${route}: ${summary}`);
+    this.name = 'ApiSchemaError';
+    this.route = route;
+    this.issues = issues;
+  }
+}
+
+// Validate a payload against a schema, throwing ApiSchemaError on mismatch
+export function parseResponse<T extends z.ZodTypeAny>(schema: T, payload: unknown, route: string): z.output<T> {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    console.error(`Schema mismatch for ${route}:`, result.error.issues, payload);
+    throw new ApiSchemaError(route, result.error.issues);
+  }
+  return result.data;
+}
+
+// u64 values arrive either as decimal strings or as JSON numbers; normalize to strings
+const u64String = z
+  .union([z.string().regex(/^\d+$/, 'Expected an unsigned integer string'), z.number().int().nonnegative()])
+  .transform((value) => value.toString());
+
+// Counters and small integers are normalized to numbers
+const u64Number = z
+  .union([z.string().regex(/^\d+$/, 'Expected an unsigned integer string'), z.number().int().nonnegative()])
+  .transform((value) => Number(value));
+
+// Envelope wrapping every `queryData` response
+export const dataEnvelopeSchema = z.object({
+  success: z.boolean(),
+  message: z.string().optional(),
+  data: z.unknown(),
+});
+
+// `market/:id` and each entry of `markets`
+export const marketSchema = z.object({
+  marketId: u64String,
+  titleString: z.string(),
+  yesLiquidity: u64String,
+  noLiquidity: u64String,
+  prizePool: u64String,
+  totalVolume: u64String,
+  totalFeesCollected: u64String,
+  resolved: z.boolean(),
+  outcome: z.boolean().nullable().optional(),
+  startTime: u64Number,
+  endTime: u64Number,
+  resolutionTime: u64Number,
+});
+
+export const marketListSchema = z.array(marketSchema);
+
+// `player/:p1/:p2/market/:id`
+export const playerMarketPositionSchema = z.object({
+  yesShares: u64String,
+  noShares: u64String,
+  claimed: z.boolean(),
+});
+
+// Entries of `market/:id/liquidity`
+export const liquidityHistoryEntrySchema = z.object({
+  counter: u64Number,
+  yesLiquidity: u64String,
+  noLiquidity: u64String,
+});
+
+export const liquidityHistorySchema = z.array(liquidityHistoryEntrySchema);
+
+// Entries of `recent/:n` and `market/:id/recent`
+export const transactionSchema = z.object({
+  index: u64String,
+  pid: z.array(u64String),
+  betType: z.number().int(),
+  amount: u64String,
+  shares: u64String,
+  counter: u64String,
+  transactionType: z.enum(['BET_YES', 'BET_NO', 'SELL_YES', 'SELL_NO']),
+  originalBetType: z.number().int(),
+});
+
+export const transactionListSchema = z.array(transactionSchema);
+
+// Entries of `player/:p1/:p2/recent` and `player/:p1/:p2/market/:id/recent`
+export const playerTransactionSchema = transactionSchema.partial({
+  pid: true,
+  transactionType: true,
+  originalBetType: true,
+});
+
+export const playerTransactionListSchema = z.array(playerTransactionSchema);
+
+// Legacy `market/:counter` and `history/:p1/:p2` routes
+export const marketHistoryResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.object({
+    counter: u64String,
+    __v: z.number(),
+    noLiquidity: u64String,
+    yesLiquidity: u64String,
+  })),
+});
+
+export const userHistoryResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.object({
+    index: u64String,
+    pid: z.tuple([u64String, u64String]),
+    betType: z.number().int(),
+    amount: u64String,
+    shares: u64String,
+    counter: u64String,
+    __v: z.number(),
+  })),
+  count: z.number(),
+});
+
+// JSON document carried in the `data` field of `queryState`
+export const globalStateSchema = z.object({
+  player: z.object({
+    nonce: u64Number,
+    data: z.object({
+      balance: u64String,
+    }).passthrough(),
+  }).nullable().optional(),
+  state: z.object({
+    counter: u64Number,
+    market_ids: z.array(u64Number),
+    next_market_id: u64Number,
+    total_players: u64Number,
+    txsize: u64Number,
+    txcounter: u64Number,
+  }),
+});
+
+// JSON document carried in the `data` field of `queryConfig`; timing fields are optional
+export const serverConfigSchema = z.object({
+  // Unix seconds at which counter 0 was produced
+  genesis_timestamp: u64Number.optional(),
+  // Seconds between counter ticks
+  counter_interval: u64Number.optional(),
+  // Admin public key, as little-endian hex or four u64 limbs
+  admin_pubkey: z.union([z.string(), z.array(z.union([z.string(), z.number()]))]).optional(),
+}).passthrough();
+
+// Raw `queryState` / `queryConfig` responses wrap a JSON string
+export const rawJsonResponseSchema = z.object({
+  data: z.string(),
+}).passthrough();
+
+export type MarketResponse = z.infer<typeof marketSchema>;
+export type PlayerMarketPosition = z.infer<typeof playerMarketPositionSchema>;
+export type LiquidityHistoryEntry = z.infer<typeof liquidityHistoryEntrySchema>;
+export type PlayerTransaction = z.infer<typeof playerTransactionSchema>;
+export type GlobalStateResponse = z.infer<typeof globalStateSchema>;
+export type ServerConfigResponse = z.infer<typeof serverConfigSchema>;
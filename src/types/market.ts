@@ -1,5 +1,7 @@
 // Market and AMM types for the prediction market
 export interface MarketData {
+  // Market the data was fetched for
+  market_id?: string;
   titleString: string;
   description?: string;
   yes_liquidity: string;
@@ -56,6 +58,18 @@ export interface TradingPosition {
   pnl: number;
 }
 
+// UNCONFIRMED: accepted by the server but submitted without a baseline to check it against
+export type TransactionStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'UNCONFIRMED';
+
+// Player state captured before a submission, used to confirm it landed
+export interface PositionSnapshot {
+  nonce: number;
+  balance: string;
+  yesShares: string;
+  noShares: string;
+  claimed: boolean;
+}
+
 export interface Transaction {
   id: string;
   type: 'BUY' | 'SELL' | 'CLAIM' | 'DEPOSIT' | 'WITHDRAW';
@@ -63,7 +77,38 @@ export interface Transaction {
   shares?: number;
   price: number;
   timestamp: Date;
-  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  status: TransactionStatus;
+  marketId?: string;
+  betType?: 0 | 1;
+  baseline?: PositionSnapshot;
+  settledAt?: Date;
+  error?: string;
+}
+
+// Client-side conditional orders, watched on each refresh and sent as plain AMM trades
+export type ConditionalOrderKind = 'LIMIT_BUY' | 'LIMIT_SELL' | 'STOP_LOSS' | 'TAKE_PROFIT';
+
+export type ConditionalOrderStatus = 'OPEN' | 'SUBMITTING' | 'FILLED' | 'FAILED' | 'CANCELLED';
+
+export interface ConditionalOrder {
+  id: string;
+  marketId: string;
+  kind: ConditionalOrderKind;
+  side: 0 | 1;
+  // Tokens to spend for buys, shares to sell for sells; null sells the whole side
+  amount: number | null;
+  // Side price (0..1) that fires the order
+  triggerPrice: number;
+  status: ConditionalOrderStatus;
+  createdAt: Date;
+  settledAt?: Date;
+  error?: string;
+}
+
+export interface ConditionalOrderLogEntry {
+  orderId: string;
+  timestamp: Date;
+  message: string;
 }
 
 export interface MarketStats {
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionData } from '../types/market';
+import {
+  DAY_MS,
+  flowStats,
+  HOUR_MS,
+  largestHolders,
+  liquidityDepth,
+  mergeTradeFeeds,
+  summarizeTrades,
+  toAnalyticsTrade
+} from './admin-analytics';
+import { createObservedClock } from './rollup-clock';
+
+// Counter 0 falls on a UTC midnight; 17280 counters of 5s make a day
+const clock = createObservedClock(0, 10 * DAY_MS);
+const COUNTERS_PER_DAY = 17280;
+
+const tx = (overrides: Partial<TransactionData> = {}): TransactionData => ({
+  index: '1',
+  pid: ['1', '2'],
+  betType: 1,
+  amount: '1000',
+  shares: '900',
+  counter: '10',
+  transactionType: 'BET_YES',
+  originalBetType: 1,
+  ...overrides,
+});
+
+describe('toAnalyticsTrade', () => {
+  it('counts the fee inside buy amounts', () => {
+    expect(toAnalyticsTrade(tx(), '1')).toMatchObject({ action: 'BUY', side: 'YES', volume: 1000, fee: 10, player: '1/2' });
+  });
+
+  it('grosses up net sell proceeds', () => {
+    const trade = toAnalyticsTrade(tx({ transactionType: 'SELL_NO', amount: '990' }), '1');
+    expect(trade).toMatchObject({ action: 'SELL', side: 'NO', volume: 1000, fee: 10 });
+  });
+});
+
+describe('mergeTradeFeeds', () => {
+  it('deduplicates by index, keeping the market-tagged copy', () => {
+    const trades = mergeTradeFeeds(
+      { '2': [tx({ index: '5', counter: '20' })] },
+      [tx({ index: '5', counter: '20' }), tx({ index: '4', counter: '15' })]
+    );
+    expect(trades.map((trade) => [trade.index, trade.marketId])).toEqual([['4', null], ['5', '2']]);
+  });
+});
+
+describe('summarizeTrades', () => {
+  it('aggregates traders, totals and per-day buckets', () => {
+    const trades = mergeTradeFeeds({
+      '1': [
+        tx({ index: '1', counter: '10' }),
+        tx({ index: '2', counter: '20', pid: ['3', '4'] }),
+        tx({ index: '3', counter: String(COUNTERS_PER_DAY + 5), amount: '2000' }),
+      ],
+    });
+    const summary = summarizeTrades(trades, clock);
+    expect(summary).toMatchObject({ trades: 3, uniqueTraders: 2, volume: 4000, fees: 40 });
+    expect(summary.daily).toEqual([
+      { start: 10 * DAY_MS, volume: 2000, fees: 20, trades: 2 },
+      { start: 11 * DAY_MS, volume: 2000, fees: 20, trades: 1 },
+    ]);
+  });
+});
+
+describe('flowStats', () => {
+  it('nets buys against sells per side', () => {
+    const trades = mergeTradeFeeds({
+      '1': [
+        tx({ index: '1', amount: '3000' }),
+        tx({ index: '2', transactionType: 'SELL_YES', amount: '990' }),
+        tx({ index: '3', transactionType: 'BET_NO', amount: '1000' }),
+      ],
+    });
+    expect(flowStats(trades)).toEqual({ yesFlow: 2000, noFlow: 1000, imbalance: 1 / 3 });
+    expect(flowStats([]).imbalance).toBe(0);
+  });
+});
+
+describe('largestHolders', () => {
+  it('ranks net share holdings and drops players who sold out', () => {
+    const trades = mergeTradeFeeds({
+      '1': [
+        tx({ index: '1', pid: ['1', '1'], shares: '100' }),
+        tx({ index: '2', pid: ['2', '2'], shares: '500', transactionType: 'BET_NO' }),
+        tx({ index: '3', pid: ['3', '3'], shares: '50' }),
+        tx({ index: '4', pid: ['3', '3'], shares: '50', transactionType: 'SELL_YES' }),
+      ],
+    });
+    expect(largestHolders(trades)).toEqual([
+      { player: '2/2', yesShares: 0, noShares: 500 },
+      { player: '1/1', yesShares: 100, noShares: 0 },
+    ]);
+  });
+});
+
+describe('liquidityDepth', () => {
+  it('sums markets per bucket, carrying forward missing snapshots', () => {
+    const perHour = HOUR_MS / 5000;
+    const depth = liquidityDepth([
+      [
+        { counter: 0, yesLiquidity: '100', noLiquidity: '100' },
+        { counter: 10, yesLiquidity: '150', noLiquidity: '100' },
+        { counter: perHour, yesLiquidity: '200', noLiquidity: '200' },
+      ],
+      [{ counter: 5, yesLiquidity: '50', noLiquidity: '50' }],
+    ], clock);
+    expect(depth).toEqual([
+      { start: 10 * DAY_MS, depth: 350 },
+      { start: 10 * DAY_MS + HOUR_MS, depth: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+// Admin analytics over the recent-trade feeds and liquidity snapshots the server exposes
+import type { LiquidityHistoryEntry } from '../services/schemas';
+import { TransactionData } from '../types/market';
+import { MarketCalculations } from './market-calculations';
+import { counterToTime, RollupClock } from './rollup-clock';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const HOUR_MS = 60 * 60 * 1000;
+
+export interface AnalyticsTrade {
+  index: string;
+  // Null for platform-feed trades that no per-market feed returned
+  marketId: string | null;
+  player: string;
+  action: 'BUY' | 'SELL';
+  side: 'YES' | 'NO';
+  // Gross tokens traded, fee included, as counted in a market's total volume
+  volume: number;
+  fee: number;
+  shares: number;
+  counter: number;
+}
+
+export interface TimeBucket {
+  // Bucket start (ms, UTC-aligned)
+  start: number;
+  volume: number;
+  fees: number;
+  trades: number;
+}
+
+export interface FlowStats {
+  // Net tokens flowing into each side: buy amounts minus gross sell amounts
+  yesFlow: number;
+  noFlow: number;
+  // -1 when all net flow went to NO, 1 when all went to YES
+  imbalance: number;
+}
+
+export interface Holder {
+  player: string;
+  yesShares: number;
+  noShares: number;
+}
+
+export interface DepthPoint {
+  start: number;
+  depth: number;
+}
+
+export interface TradeAnalytics {
+  trades: number;
+  uniqueTraders: number;
+  volume: number;
+  fees: number;
+  daily: TimeBucket[];
+  flow: FlowStats;
+  holders: Holder[];
+}
+
+// Sells are recorded with net proceeds; the fee came out of the gross amount
+const grossFromNet = (net: number) =>
+  Math.round(net * MarketCalculations.PRECISION / (MarketCalculations.PRECISION - MarketCalculations.FEE_RATE));
+
+export function toAnalyticsTrade(tx: TransactionData, marketId: string | null): AnalyticsTrade {
+  const isSell = tx.transactionType === 'SELL_YES' || tx.transactionType === 'SELL_NO';
+  const amount = Number(tx.amount);
+  const volume = isSell ? grossFromNet(amount) : amount;
+  return {
+    index: tx.index,
+    marketId,
+    player: tx.pid.join('/'),
+    action: isSell ? 'SELL' : 'BUY',
+    side: tx.transactionType.endsWith('YES') ? 'YES' : 'NO',
+    volume,
+    fee: isSell ? volume - amount : MarketCalculations.calculateFees(amount),
+    shares: Number(tx.shares),
+    counter: Number(tx.counter),
+  };
+}
+
+// Per-market feeds carry the market id, so their copy of a trade wins over the platform feed's
+export function mergeTradeFeeds(byMarket: Record<string, TransactionData[]>, platform: TransactionData[] = []): AnalyticsTrade[] {
+  const merged = new Map<string, AnalyticsTrade>();
+  for (const [marketId, transactions] of Object.entries(byMarket)) {
+    for (const tx of transactions) {
+      merged.set(tx.index, toAnalyticsTrade(tx, marketId));
+    }
+  }
+  for (const tx of platform) {
+    if (!merged.has(tx.index)) {
+      merged.set(tx.index, toAnalyticsTrade(tx, null));
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.counter - b.counter);
+}
+
+const bucketStart = (time: number, bucketMs: number) => Math.floor(time / bucketMs) * bucketMs;
+
+export function bucketTrades(trades: AnalyticsTrade[], clock: RollupClock, bucketMs: number = DAY_MS): TimeBucket[] {
+  const buckets = new Map<number, TimeBucket>();
+  for (const trade of trades) {
+    const start = bucketStart(counterToTime(clock, trade.counter), bucketMs);
+    const bucket = buckets.get(start) ?? { start, volume: 0, fees: 0, trades: 0 };
+    bucket.volume += trade.volume;
+    bucket.fees += trade.fee;
+    bucket.trades += 1;
+    buckets.set(start, bucket);
+  }
+  return Array.from(buckets.values()).sort((a, b) => a.start - b.start);
+}
+
+export function flowStats(trades: AnalyticsTrade[]): FlowStats {
+  let yesFlow = 0;
+  let noFlow = 0;
+  for (const trade of trades) {
+    const signed = trade.action === 'BUY' ? trade.volume : -trade.volume;
+    if (trade.side === 'YES') yesFlow += signed; else noFlow += signed;
+  }
+  const total = Math.abs(yesFlow) + Math.abs(noFlow);
+  return { yesFlow, noFlow, imbalance: total > 0 ? (yesFlow - noFlow) / total : 0 };
+}
+
+// Net shares bought within the window; players who sold down to nothing are left out
+export function largestHolders(trades: AnalyticsTrade[], limit: number = 5): Holder[] {
+  const holders = new Map<string, Holder>();
+  for (const trade of trades) {
+    const holder = holders.get(trade.player) ?? { player: trade.player, yesShares: 0, noShares: 0 };
+    const signed = trade.action === 'BUY' ? trade.shares : -trade.shares;
+    if (trade.side === 'YES') holder.yesShares += signed; else holder.noShares += signed;
+    holders.set(trade.player, holder);
+  }
+  return Array.from(holders.values())
+    .map((holder) => ({ ...holder, yesShares: Math.max(0, holder.yesShares), noShares: Math.max(0, holder.noShares) }))
+    .filter((holder) => holder.yesShares + holder.noShares > 0)
+    .sort((a, b) => (b.yesShares + b.noShares) - (a.yesShares + a.noShares))
+    .slice(0, limit);
+}
+
+export function countUniqueTraders(trades: AnalyticsTrade[]): number {
+  return new Set(trades.map((trade) => trade.player)).size;
+}
+
+export function summarizeTrades(trades: AnalyticsTrade[], clock: RollupClock): TradeAnalytics {
+  return {
+    trades: trades.length,
+    uniqueTraders: countUniqueTraders(trades),
+    volume: trades.reduce((sum, trade) => sum + trade.volume, 0),
+    fees: trades.reduce((sum, trade) => sum + trade.fee, 0),
+    daily: bucketTrades(trades, clock),
+    flow: flowStats(trades),
+    holders: largestHolders(trades),
+  };
+}
+
+// Total pool liquidity at the end of each bucket, summed over markets; a market without a
+// snapshot in some bucket contributes its last known depth
+export function liquidityDepth(histories: LiquidityHistoryEntry[][], clock: RollupClock, bucketMs: number = HOUR_MS): DepthPoint[] {
+  const perMarket = histories.map((history) => {
+    const closes = new Map<number, number>();
+    for (const entry of [...history].sort((a, b) => a.counter - b.counter)) {
+      const depth = MarketCalculations.getTotalLiquidity(BigInt(entry.yesLiquidity), BigInt(entry.noLiquidity));
+      closes.set(bucketStart(counterToTime(clock, entry.counter), bucketMs), depth);
+    }
+    return closes;
+  });
+  const starts = Array.from(new Set(perMarket.flatMap((closes) => Array.from(closes.keys())))).sort((a, b) => a - b);
+  const lastDepth = perMarket.map(() => 0);
+  return starts.map((start) => {
+    perMarket.forEach((closes, index) => {
+      lastDepth[index] = closes.get(start) ?? lastDepth[index];
+    });
+    return { start, depth: lastDepth.reduce((sum, depth) => sum + depth, 0) };
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { adminKeyFromConfig, hexLeToLimbs, isAdminKey, parsePlayerIdentifier } from './admin';
+
+describe('hexLeToLimbs', () => {
+  it('reads little-endian bytes into least-significant-first limbs', () => {
+    const hex = '0100000000000000' + '0200000000000000' + 'ff00000000000000' + '0000000000000080';
+    expect(hexLeToLimbs(hex)).toEqual([1n, 2n, 255n, 0x8000000000000000n]);
+    expect(hexLeToLimbs(`0x${hex}`)).toEqual([1n, 2n, 255n, 0x8000000000000000n]);
+  });
+
+  it('zero-fills short keys and rejects malformed ones', () => {
+    expect(hexLeToLimbs('0a')).toEqual([10n, 0n, 0n, 0n]);
+    expect(hexLeToLimbs('xyz')).toBeNull();
+    expect(hexLeToLimbs('abc')).toBeNull();
+    expect(hexLeToLimbs('00'.repeat(33))).toBeNull();
+  });
+});
+
+describe('adminKeyFromConfig', () => {
+  it('accepts limb arrays and hex strings', () => {
+    expect(adminKeyFromConfig({ admin_pubkey: ['1', 2, '3', '4'] })).toEqual([1n, 2n, 3n, 4n]);
+    expect(adminKeyFromConfig({ admin_pubkey: '05' })).toEqual([5n, 0n, 0n, 0n]);
+  });
+
+  it('returns null when no usable admin key is configured', () => {
+    expect(adminKeyFromConfig(null)).toBeNull();
+    expect(adminKeyFromConfig({})).toBeNull();
+    expect(adminKeyFromConfig({ admin_pubkey: ['1', '2'] })).toBeNull();
+    expect(adminKeyFromConfig({ admin_pubkey: ['1', '2', '3', 'x'] })).toBeNull();
+  });
+});
+
+describe('isAdminKey', () => {
+  it('matches every limb of the connected key', () => {
+    const admin = [1n, 2n, 3n, 4n];
+    expect(isAdminKey(admin, new BigUint64Array([1n, 2n, 3n, 4n]))).toBe(true);
+    expect(isAdminKey(admin, [1n, 2n, 3n, 5n])).toBe(false);
+    expect(isAdminKey(admin, null)).toBe(false);
+    expect(isAdminKey(null, [1n, 2n, 3n, 4n])).toBe(false);
+  });
+});
+
+describe('parsePlayerIdentifier', () => {
+  it('accepts pid pairs in the usual separators', () => {
+    expect(parsePlayerIdentifier('123, 456')).toEqual(['123', '456']);
+    expect(parsePlayerIdentifier('[123,456]')).toEqual(['123', '456']);
+    expect(parsePlayerIdentifier(' 0123 / 456 ')).toEqual(['123', '456']);
+  });
+
+  it('derives the pid pair from an L2 public key', () => {
+    const pubkey = '0100000000000000' + '0200000000000000' + '0300000000000000' + '0400000000000000';
+    expect(parsePlayerIdentifier(pubkey)).toEqual(['2', '3']);
+    expect(parsePlayerIdentifier(`0x${pubkey}`)).toEqual(['2', '3']);
+  });
+
+  it('rejects anything else', () => {
+    expect(parsePlayerIdentifier('')).toBeNull();
+    expect(parsePlayerIdentifier('123')).toBeNull();
+    expect(parsePlayerIdentifier('1, 2, 3')).toBeNull();
+    expect(parsePlayerIdentifier('-1, 2')).toBeNull();
+    expect(parsePlayerIdentifier('18446744073709551616, 1')).toBeNull();
+    expect(parsePlayerIdentifier('abcd')).toBeNull();
+  });
+});
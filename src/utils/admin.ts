@@ -0,0 +1,64 @@
+// Admin detection: the rollup config names the admin by public key, as four u64 limbs
+import { ServerConfigResponse } from '../services/schemas';
+
+const LIMB_COUNT = 4;
+const U64_MAX = (1n << 64n) - 1n;
+
+// Little-endian hex (as produced by bnToHexLe) to u64 limbs, least significant first;
+// the same layout LeHexBN.toU64Array returns
+export function hexLeToLimbs(hex: string): bigint[] | null {
+  const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (!/^[0-9a-fA-F]+$/.test(digits) || digits.length > LIMB_COUNT * 16 || digits.length % 2 !== 0) {
+    return null;
+  }
+  const bytes = digits.padEnd(LIMB_COUNT * 16, '0').match(/../g)!;
+  const limbs: bigint[] = [];
+  for (let limb = 0; limb < LIMB_COUNT; limb++) {
+    const limbBytes = bytes.slice(limb * 8, limb * 8 + 8).reverse().join('');
+    limbs.push(BigInt(`0x${limbBytes}`));
+  }
+  return limbs;
+}
+
+// Admin key from the server config, accepting either a limb array or little-endian hex
+export function adminKeyFromConfig(config: ServerConfigResponse | null): bigint[] | null {
+  const raw = config?.admin_pubkey;
+  if (raw === undefined) {
+    return null;
+  }
+  if (typeof raw === 'string') {
+    return hexLeToLimbs(raw);
+  }
+  if (raw.length !== LIMB_COUNT) {
+    return null;
+  }
+  try {
+    return raw.map((limb) => BigInt(limb));
+  } catch {
+    return null;
+  }
+}
+
+export function isAdminKey(adminKey: bigint[] | null, playerKey: ArrayLike<bigint> | null): boolean {
+  if (!adminKey || !playerKey || playerKey.length !== LIMB_COUNT) {
+    return false;
+  }
+  return adminKey.every((limb, index) => limb === playerKey[index]);
+}
+
+// Admin deposits target a player either by pid pair ("123, 456") or by the player's L2 public
+// key as 64 little-endian hex digits; the pid pair is the key's middle two limbs
+export function parsePlayerIdentifier(input: string): [string, string] | null {
+  const value = input.trim();
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  if (/^[0-9a-fA-F]{64}$/.test(hex)) {
+    const limbs = hexLeToLimbs(hex);
+    return limbs && [limbs[1].toString(), limbs[2].toString()];
+  }
+
+  const parts = value.replace(/^\[|\]$/g, '').split(/[\s,/]+/).filter(Boolean);
+  if (parts.length !== 2 || !parts.every((part) => /^\d+$/.test(part) && BigInt(part) <= U64_MAX)) {
+    return null;
+  }
+  return [BigInt(parts[0]).toString(), BigInt(parts[1]).toString()];
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { priceAfterBuy, solveBuyForShares, solveBuyForTargetPrice, solveMaxBuy } from './buy-solver';
+import { MarketCalculations } from './market-calculations';
+import { quoteBuy } from './slippage';
+
+const YES_LIQUIDITY = 100000n;
+const NO_LIQUIDITY = 100000n;
+
+describe('solveBuyForTargetPrice', () => {
+  it('finds the cheapest amount that reaches the target price', () => {
+    const solved = solveBuyForTargetPrice(1, 0.6, YES_LIQUIDITY, NO_LIQUIDITY)!;
+    expect(solved.priceAfter).toBeGreaterThanOrEqual(0.6);
+    expect(priceAfterBuy(1, solved.amount - 1, YES_LIQUIDITY, NO_LIQUIDITY)).toBeLessThan(0.6);
+    expect(solved.shares).toBe(quoteBuy(1, solved.amount, YES_LIQUIDITY, NO_LIQUIDITY));
+  });
+
+  it('includes the platform fee in the amount', () => {
+    const solved = solveBuyForTargetPrice(0, 0.6, YES_LIQUIDITY, NO_LIQUIDITY)!;
+    // Without the fee, k = 1e10 needs the YES pool at sqrt(0.6 / 0.4 * 1e10) ≈ 122474
+    expect(solved.amount - MarketCalculations.calculateFees(solved.amount)).toBeCloseTo(22474, -1);
+  });
+
+  it('returns null when the price is already there or unreachable', () => {
+    expect(solveBuyForTargetPrice(1, 0.5, YES_LIQUIDITY, NO_LIQUIDITY)).toBeNull();
+    expect(solveBuyForTargetPrice(1, 1, YES_LIQUIDITY, NO_LIQUIDITY)).toBeNull();
+  });
+});
+
+describe('solveBuyForShares', () => {
+  it('finds the cheapest amount that returns the requested shares', () => {
+    const solved = solveBuyForShares(1, 5000, YES_LIQUIDITY, NO_LIQUIDITY)!;
+    expect(solved.shares).toBeGreaterThanOrEqual(5000);
+    expect(quoteBuy(1, solved.amount - 1, YES_LIQUIDITY, NO_LIQUIDITY)).toBeLessThan(5000);
+  });
+
+  it('returns null for more shares than the pool holds', () => {
+    expect(solveBuyForShares(0, 100000, YES_LIQUIDITY, NO_LIQUIDITY)).toBeNull();
+    expect(solveBuyForShares(0, 0, YES_LIQUIDITY, NO_LIQUIDITY)).toBeNull();
+  });
+});
+
+describe('solveMaxBuy', () => {
+  it('is capped by the balance when impact stays small', () => {
+    expect(solveMaxBuy(1, 500, 0.05, YES_LIQUIDITY, NO_LIQUIDITY)?.amount).toBe(500);
+  });
+
+  it('stops where price impact would exceed the tolerance', () => {
+    const solved = solveMaxBuy(1, 1_000_000, 0.02, YES_LIQUIDITY, NO_LIQUIDITY)!;
+    const impactAt = (amount: number) =>
+      MarketCalculations.calculateMarketImpact(1, amount - MarketCalculations.calculateFees(amount), YES_LIQUIDITY, NO_LIQUIDITY).slippage;
+    expect(solved.amount).toBeLessThan(1_000_000);
+    expect(impactAt(solved.amount)).toBeLessThanOrEqual(0.02);
+    expect(impactAt(solved.amount + 1)).toBeGreaterThan(0.02);
+  });
+
+  it('returns null without a usable balance', () => {
+    expect(solveMaxBuy(1, 0, 0.02, YES_LIQUIDITY, NO_LIQUIDITY)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+// Inverse AMM solvers: the token amount (fee included) a buy needs to hit a target
+import { MarketCalculations } from './market-calculations';
+import { quoteBuy } from './slippage';
+
+export type BuyMode = 'amount' | 'targetPrice' | 'shares' | 'max';
+
+export const BUY_MODES: { value: BuyMode; label: string }[] = [
+  { value: 'amount', label: 'Amount' },
+  { value: 'targetPrice', label: 'To Price' },
+  { value: 'shares', label: 'Shares' },
+  { value: 'max', label: 'Max' },
+];
+
+// Searches stop here; targets that need more tokens than this are treated as unreachable
+export const MAX_SOLVER_AMOUNT = 1e15;
+
+export interface SolvedBuy {
+  // Tokens to spend, platform fee included
+  amount: number;
+  shares: number;
+  // Price of the bought side once the trade lands
+  priceAfter: number;
+}
+
+// Side price after spending `amount` tokens, fee deducted first as the backend does
+export function priceAfterBuy(betType: 0 | 1, amount: number, yesLiquidity: bigint, noLiquidity: bigint): number {
+  const amountAfterFees = amount - MarketCalculations.calculateFees(amount);
+  if (amountAfterFees <= 0) {
+    const prices = MarketCalculations.calculatePrices(yesLiquidity, noLiquidity);
+    return betType === 1 ? prices.yesPrice : prices.noPrice;
+  }
+  return MarketCalculations.calculateMarketImpact(betType, amountAfterFees, yesLiquidity, noLiquidity).newPrice;
+}
+
+// Smallest whole amount satisfying a predicate that holds for every larger amount
+function smallestAmountWhere(predicate: (amount: number) => boolean, limit: number): number | null {
+  let high = 1;
+  while (!predicate(high)) {
+    if (high >= limit) {
+      return null;
+    }
+    high = Math.min(high * 2, limit);
+  }
+  let low = 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (predicate(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+// Largest whole amount up to `limit` satisfying a predicate that holds for every smaller amount
+function largestAmountWhere(predicate: (amount: number) => boolean, limit: number): number | null {
+  let low = 1;
+  let high = Math.floor(limit);
+  if (high < low || !predicate(low)) {
+    return null;
+  }
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (predicate(mid)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+const toSolvedBuy = (betType: 0 | 1, amount: number, yesLiquidity: bigint, noLiquidity: bigint): SolvedBuy => ({
+  amount,
+  shares: quoteBuy(betType, amount, yesLiquidity, noLiquidity),
+  priceAfter: priceAfterBuy(betType, amount, yesLiquidity, noLiquidity),
+});
+
+// Cheapest buy that moves the side's price to at least `targetPrice`; null if the price is already
+// there or the target is out of reach
+export function solveBuyForTargetPrice(
+  betType: 0 | 1,
+  targetPrice: number,
+  yesLiquidity: bigint,
+  noLiquidity: bigint
+): SolvedBuy | null {
+  if (!(targetPrice > 0 && targetPrice < 1) || priceAfterBuy(betType, 0, yesLiquidity, noLiquidity) >= targetPrice) {
+    return null;
+  }
+  const amount = smallestAmountWhere(
+    (candidate) => priceAfterBuy(betType, candidate, yesLiquidity, noLiquidity) >= targetPrice,
+    MAX_SOLVER_AMOUNT
+  );
+  return amount === null ? null : toSolvedBuy(betType, amount, yesLiquidity, noLiquidity);
+}
+
+// Cheapest buy returning at least `shares`; null if the pool cannot supply that many
+export function solveBuyForShares(
+  betType: 0 | 1,
+  shares: number,
+  yesLiquidity: bigint,
+  noLiquidity: bigint
+): SolvedBuy | null {
+  const available = Number(betType === 1 ? yesLiquidity : noLiquidity);
+  if (!(shares > 0) || shares >= available) {
+    return null;
+  }
+  const amount = smallestAmountWhere(
+    (candidate) => quoteBuy(betType, candidate, yesLiquidity, noLiquidity) >= shares,
+    MAX_SOLVER_AMOUNT
+  );
+  return amount === null ? null : toSolvedBuy(betType, amount, yesLiquidity, noLiquidity);
+}
+
+// Largest affordable buy whose price impact stays within the slippage tolerance
+export function solveMaxBuy(
+  betType: 0 | 1,
+  balance: number,
+  tolerance: number,
+  yesLiquidity: bigint,
+  noLiquidity: bigint
+): SolvedBuy | null {
+  const amount = largestAmountWhere((candidate) => {
+    const amountAfterFees = candidate - MarketCalculations.calculateFees(candidate);
+    return amountAfterFees <= 0 ||
+      MarketCalculations.calculateMarketImpact(betType, amountAfterFees, yesLiquidity, noLiquidity).slippage <= tolerance;
+  }, balance);
+  if (amount === null) {
+    return null;
+  }
+  const solved = toSolvedBuy(betType, amount, yesLiquidity, noLiquidity);
+  return solved.shares > 0 ? solved : null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionData } from '../types/market';
+import { buildCandles, getCandleIntervalMs, MAX_CANDLES, PricePoint, toTradePoint } from './candles';
+
+const MINUTE = getCandleIntervalMs('1m');
+
+const prices = (...points: [number, number][]): PricePoint[] => points.map(([time, price]) => ({ time, price }));
+
+describe('buildCandles', () => {
+  it('summarizes each bucket as open, high, low and close', () => {
+    const candles = buildCandles(prices([0, 0.5], [10_000, 0.6], [20_000, 0.45], [50_000, 0.55]), [], MINUTE);
+    expect(candles).toEqual([
+      expect.objectContaining({ time: 0, open: 0.5, high: 0.6, low: 0.45, close: 0.55 }),
+    ]);
+  });
+
+  it('opens each bucket at the previous close and fills gaps flat', () => {
+    const candles = buildCandles(prices([0, 0.5], [60_000, 0.6], [190_000, 0.4]), [], MINUTE);
+    expect(candles.map(({ time, open, high, low, close }) => [time, open, high, low, close])).toEqual([
+      [0, 0.5, 0.5, 0.5, 0.5],
+      [60_000, 0.5, 0.6, 0.5, 0.6],
+      [120_000, 0.6, 0.6, 0.6, 0.6],
+      [180_000, 0.6, 0.6, 0.4, 0.4],
+    ]);
+  });
+
+  it('splits traded volume into buys and sells per bucket', () => {
+    const candles = buildCandles(prices([0, 0.5], [70_000, 0.5]), [
+      { time: 5_000, amount: 100, side: 'BUY' },
+      { time: 30_000, amount: 40, side: 'SELL' },
+      { time: 65_000, amount: 10, side: 'BUY' },
+    ], MINUTE);
+    expect(candles.map(({ buyVolume, sellVolume, volume, trades }) => [buyVolume, sellVolume, volume, trades])).toEqual([
+      [100, 40, 140, 2],
+      [10, 0, 10, 1],
+    ]);
+  });
+
+  it('keeps only the newest candles, continuing from the last dropped close', () => {
+    const last = (MAX_CANDLES + 9) * MINUTE;
+    const candles = buildCandles(prices([0, 0.2], [MINUTE, 0.3], [last, 0.9]), [], MINUTE);
+    expect(candles).toHaveLength(MAX_CANDLES);
+    expect(candles[0]).toMatchObject({ open: 0.3, close: 0.3 });
+    expect(candles[candles.length - 1]).toMatchObject({ time: last, open: 0.3, close: 0.9 });
+  });
+
+  it('draws nothing without prices', () => {
+    expect(buildCandles([], [{ time: 0, amount: 5, side: 'BUY' }], MINUTE)).toEqual([]);
+  });
+});
+
+describe('toTradePoint', () => {
+  it('times trades by counter and classifies buys and sells', () => {
+    const transaction: TransactionData = {
+      index: '1',
+      pid: ['1', '2'],
+      betType: 0,
+      amount: '2500',
+      shares: '4000',
+      counter: '12',
+      transactionType: 'SELL_NO',
+      originalBetType: 0,
+    };
+    expect(toTradePoint(transaction, (counter) => counter * 5000)).toEqual({ time: 60_000, amount: 2500, side: 'SELL' });
+  });
+});
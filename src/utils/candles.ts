@@ -0,0 +1,107 @@
+// OHLC candles and traded volume bucketed by wall-clock interval
+import { TransactionData } from '../types/market';
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export const CANDLE_INTERVALS: { value: CandleInterval; label: string; ms: number }[] = [
+  { value: '1m', label: '1m', ms: 60 * 1000 },
+  { value: '5m', label: '5m', ms: 5 * 60 * 1000 },
+  { value: '1h', label: '1h', ms: 60 * 60 * 1000 },
+  { value: '1d', label: '1d', ms: 24 * 60 * 60 * 1000 },
+];
+
+export const DEFAULT_CANDLE_INTERVAL: CandleInterval = '1m';
+
+// Cap on candles drawn at once; the oldest are dropped first
+export const MAX_CANDLES = 500;
+
+export interface PricePoint {
+  time: number;
+  price: number;
+}
+
+export interface TradePoint {
+  time: number;
+  amount: number;
+  side: 'BUY' | 'SELL';
+}
+
+export interface Candle {
+  // Bucket start (ms)
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  buyVolume: number;
+  sellVolume: number;
+  volume: number;
+  trades: number;
+}
+
+export function getCandleIntervalMs(interval: CandleInterval): number {
+  return CANDLE_INTERVALS.find((option) => option.value === interval)!.ms;
+}
+
+// Trades keep their wall-clock time; betting is BUY and selling is SELL regardless of side
+export function toTradePoint(transaction: TransactionData, counterToTime: (counter: number) => number): TradePoint {
+  return {
+    time: counterToTime(Number(transaction.counter)),
+    amount: Number(transaction.amount),
+    side: transaction.transactionType.startsWith('SELL') ? 'SELL' : 'BUY',
+  };
+}
+
+const bucketStart = (time: number, intervalMs: number) => Math.floor(time / intervalMs) * intervalMs;
+
+// Every bucket opens at the previous close so the series stays continuous,
+// and empty buckets between the first and last point are drawn flat
+export function buildCandles(prices: PricePoint[], trades: TradePoint[], intervalMs: number): Candle[] {
+  if (prices.length === 0) {
+    return [];
+  }
+
+  const pricesByBucket = new Map<number, number[]>();
+  for (const point of [...prices].sort((a, b) => a.time - b.time)) {
+    const start = bucketStart(point.time, intervalMs);
+    pricesByBucket.set(start, [...(pricesByBucket.get(start) ?? []), point.price]);
+  }
+  const tradesByBucket = new Map<number, TradePoint[]>();
+  for (const trade of trades) {
+    const start = bucketStart(trade.time, intervalMs);
+    tradesByBucket.set(start, [...(tradesByBucket.get(start) ?? []), trade]);
+  }
+
+  const buckets = [...pricesByBucket.keys(), ...tradesByBucket.keys()];
+  const first = Math.min(...pricesByBucket.keys());
+  const last = Math.max(...buckets);
+  const from = Math.max(first, last - (MAX_CANDLES - 1) * intervalMs);
+
+  // Close of the newest bucket that falls before the drawn window
+  const earlier = [...pricesByBucket.entries()].filter(([start]) => start < from).sort(([a], [b]) => a - b);
+  let previousClose: number | null = earlier.length > 0 ? earlier[earlier.length - 1][1].slice(-1)[0] : null;
+
+  const candles: Candle[] = [];
+  for (let start = from; start <= last; start += intervalMs) {
+    const bucketPrices = pricesByBucket.get(start) ?? [];
+    const open = previousClose ?? bucketPrices[0];
+    const close = bucketPrices.length > 0 ? bucketPrices[bucketPrices.length - 1] : open;
+    previousClose = close;
+
+    const bucketTrades = tradesByBucket.get(start) ?? [];
+    const buyVolume = bucketTrades.filter((trade) => trade.side === 'BUY').reduce((sum, trade) => sum + trade.amount, 0);
+    const sellVolume = bucketTrades.filter((trade) => trade.side === 'SELL').reduce((sum, trade) => sum + trade.amount, 0);
+    candles.push({
+      time: start,
+      open,
+      high: Math.max(open, ...bucketPrices),
+      low: Math.min(open, ...bucketPrices),
+      close,
+      buyVolume,
+      sellVolume,
+      volume: buyVolume + sellVolume,
+      trades: bucketTrades.length,
+    });
+  }
+  return candles;
+}
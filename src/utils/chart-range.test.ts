@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { computePriceDomain, presetStartCounter } from './chart-range';
+import { createObservedClock } from './rollup-clock';
+
+describe('presetStartCounter', () => {
+  // Counter 10000 was produced at t=0, one counter every 5 seconds
+  const clock = createObservedClock(10_000, 0);
+
+  it('converts the preset length into counters back from now', () => {
+    expect(presetStartCounter('1H', clock, 0, 0)).toBe(10_000 - 720);
+    expect(presetStartCounter('6H', clock, 0, 0)).toBe(10_000 - 6 * 720);
+  });
+
+  it('never starts before the market', () => {
+    expect(presetStartCounter('1D', clock, 0, 5_000)).toBe(5_000);
+    expect(presetStartCounter('ALL', clock, 0, 1_234)).toBe(1_234);
+  });
+});
+
+describe('computePriceDomain', () => {
+  it('pads around the visible prices', () => {
+    expect(computePriceDomain([0.4, 0.6])).toEqual([0.38, 0.62]);
+  });
+
+  it('gives flat series a minimum span', () => {
+    expect(computePriceDomain([0.5, 0.5])).toEqual([0.488, 0.512]);
+  });
+
+  it('does not go below zero and falls back without data', () => {
+    expect(computePriceDomain([0, 0.01])[0]).toBe(0);
+    expect(computePriceDomain([])).toEqual([0, 1]);
+    expect(computePriceDomain([NaN])).toEqual([0, 1]);
+  });
+});
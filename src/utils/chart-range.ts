@@ -0,0 +1,38 @@
+// Visible range presets and axis scaling for the price chart
+import { RollupClock, timeToCounter } from './rollup-clock';
+
+export type ChartRangePreset = '1H' | '6H' | '1D' | 'ALL';
+
+export const CHART_RANGE_PRESETS: { value: ChartRangePreset; label: string; ms: number | null }[] = [
+  { value: '1H', label: '1H', ms: 60 * 60 * 1000 },
+  { value: '6H', label: '6H', ms: 6 * 60 * 60 * 1000 },
+  { value: '1D', label: '1D', ms: 24 * 60 * 60 * 1000 },
+  { value: 'ALL', label: 'All', ms: null },
+];
+
+// First counter a preset shows; 'All' goes back to the market's first counter
+export function presetStartCounter(
+  preset: ChartRangePreset,
+  clock: RollupClock,
+  now: number,
+  firstCounter: number
+): number {
+  const ms = CHART_RANGE_PRESETS.find((option) => option.value === preset)!.ms;
+  return ms === null ? firstCounter : Math.max(firstCounter, timeToCounter(clock, now - ms));
+}
+
+// Y domain hugging the visible prices with some headroom; flat series still get a readable span
+export function computePriceDomain(values: number[], paddingRatio = 0.1, minSpan = 0.02): [number, number] {
+  const finite = values.filter((value) => Number.isFinite(value));
+  if (finite.length === 0) {
+    return [0, 1];
+  }
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const span = Math.max(max - min, minSpan);
+  const padding = span * paddingRatio;
+  const center = (min + max) / 2;
+  const low = Math.max(0, Math.min(min, center - span / 2) - padding);
+  const high = Math.max(max, center + span / 2) + padding;
+  return [Number(low.toFixed(4)), Number(high.toFixed(4))];
+}
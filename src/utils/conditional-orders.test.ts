@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendOrderLog,
+  createConditionalOrder,
+  describeOrder,
+  deserializeOrderBook,
+  isOrderTriggered,
+  MAX_ORDER_LOG_ENTRIES,
+  NewConditionalOrder,
+  resolveOrderAmount,
+  serializeOrderBook,
+} from './conditional-orders';
+
+const order = (overrides: Partial<NewConditionalOrder> = {}) => createConditionalOrder({
+  marketId: '1',
+  kind: 'LIMIT_BUY',
+  side: 1,
+  amount: 1000,
+  triggerPrice: 0.4,
+  ...overrides,
+});
+
+// YES price is no / (yes + no)
+const YES_AT_30 = [70000n, 30000n] as const;
+const YES_AT_50 = [50000n, 50000n] as const;
+const YES_AT_70 = [30000n, 70000n] as const;
+
+describe('isOrderTriggered', () => {
+  it('fires buys at or below the trigger price', () => {
+    expect(isOrderTriggered(order(), ...YES_AT_30)).toBe(true);
+    expect(isOrderTriggered(order(), ...YES_AT_50)).toBe(false);
+  });
+
+  it('fires take-profit and limit sells at or above, stop-losses at or below', () => {
+    expect(isOrderTriggered(order({ kind: 'TAKE_PROFIT', triggerPrice: 0.6 }), ...YES_AT_70)).toBe(true);
+    expect(isOrderTriggered(order({ kind: 'LIMIT_SELL', triggerPrice: 0.6 }), ...YES_AT_50)).toBe(false);
+    expect(isOrderTriggered(order({ kind: 'STOP_LOSS', triggerPrice: 0.4 }), ...YES_AT_30)).toBe(true);
+  });
+
+  it('watches the price of the order side', () => {
+    // NO is at 0.7 when YES is at 0.3
+    expect(isOrderTriggered(order({ side: 0, kind: 'TAKE_PROFIT', triggerPrice: 0.6 }), ...YES_AT_30)).toBe(true);
+  });
+
+  it('ignores orders that are no longer open', () => {
+    expect(isOrderTriggered({ ...order(), status: 'CANCELLED' }, ...YES_AT_30)).toBe(false);
+  });
+});
+
+describe('resolveOrderAmount', () => {
+  it('caps buys by the balance', () => {
+    expect(resolveOrderAmount(order(), 400, 0, 0)).toBe(400);
+  });
+
+  it('sells the whole side or at most the shares held', () => {
+    expect(resolveOrderAmount(order({ kind: 'STOP_LOSS', amount: null }), 0, 250, 10)).toBe(250);
+    expect(resolveOrderAmount(order({ kind: 'LIMIT_SELL', side: 0, amount: 50 }), 0, 250, 10)).toBe(10);
+  });
+});
+
+describe('describeOrder', () => {
+  it('reads as the condition the user entered', () => {
+    expect(describeOrder(order())).toBe('Limit Buy: buy YES for 1000 tokens when YES ≤ 40.0%');
+    expect(describeOrder(order({ kind: 'STOP_LOSS', side: 0, amount: null, triggerPrice: 0.25 })))
+      .toBe('Stop Loss: sell all NO shares when NO ≤ 25.0%');
+  });
+});
+
+describe('order book persistence', () => {
+  it('round-trips orders and log entries', () => {
+    const open = order();
+    const book = { orders: [open], log: appendOrderLog([], open.id, 'Placed') };
+    const restored = deserializeOrderBook(serializeOrderBook(book));
+    expect(restored.orders).toEqual([open]);
+    expect(restored.log[0]).toMatchObject({ orderId: open.id, message: 'Placed' });
+  });
+
+  it('fails orders interrupted mid-submission instead of retrying them', () => {
+    const submitting = { ...order(), status: 'SUBMITTING' as const };
+    const restored = deserializeOrderBook(serializeOrderBook({ orders: [submitting], log: [] }));
+    expect(restored.orders[0].status).toBe('FAILED');
+  });
+
+  it('drops malformed data', () => {
+    expect(deserializeOrderBook('not json')).toEqual({ orders: [], log: [] });
+    expect(deserializeOrderBook(JSON.stringify({ orders: [{ id: 1 }], log: [] })).orders).toEqual([]);
+  });
+
+  it('keeps the log bounded', () => {
+    let log = appendOrderLog([], 'a', 'first');
+    for (let i = 0; i < MAX_ORDER_LOG_ENTRIES + 5; i++) {
+      log = appendOrderLog(log, 'a', `entry ${i}`);
+    }
+    expect(log).toHaveLength(MAX_ORDER_LOG_ENTRIES);
+    expect(log[0].message).toBe(`entry ${MAX_ORDER_LOG_ENTRIES + 4}`);
+  });
+});
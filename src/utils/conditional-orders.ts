@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import { ConditionalOrder, ConditionalOrderKind, ConditionalOrderLogEntry } from '../types/market';
+import { MarketCalculations } from './market-calculations';
+import { createTransactionId } from './transaction-tracker';
+
+// Keep the newest log lines only
+export const MAX_ORDER_LOG_ENTRIES = 50;
+
+export const ORDER_KINDS: Record<ConditionalOrderKind, {
+  label: string;
+  action: 'BUY' | 'SELL';
+  // Fires when the side price is at or below ('LTE') or at or above ('GTE') the trigger
+  direction: 'LTE' | 'GTE';
+}> = {
+  LIMIT_BUY: { label: 'Limit Buy', action: 'BUY', direction: 'LTE' },
+  LIMIT_SELL: { label: 'Limit Sell', action: 'SELL', direction: 'GTE' },
+  STOP_LOSS: { label: 'Stop Loss', action: 'SELL', direction: 'LTE' },
+  TAKE_PROFIT: { label: 'Take Profit', action: 'SELL', direction: 'GTE' },
+};
+
+export type NewConditionalOrder = Pick<ConditionalOrder, 'marketId' | 'kind' | 'side' | 'amount' | 'triggerPrice'>;
+
+export interface OrderBook {
+  orders: ConditionalOrder[];
+  log: ConditionalOrderLogEntry[];
+}
+
+// Orders are kept per player and market
+export function orderBookStorageKey(playerId: [string, string], marketId: string): string {
+  return `prediction-market:orders:${playerId[0]}-${playerId[1]}:${marketId}`;
+}
+
+export function createConditionalOrder(input: NewConditionalOrder, now = new Date()): ConditionalOrder {
+  return {
+    ...input,
+    id: createTransactionId(now.getTime()),
+    status: 'OPEN',
+    createdAt: now,
+  };
+}
+
+export function describeOrder(order: ConditionalOrder): string {
+  const { label, action, direction } = ORDER_KINDS[order.kind];
+  const side = order.side === 1 ? 'YES' : 'NO';
+  const size = order.amount === null
+    ? `all ${side} shares`
+    : action === 'BUY' ? `${side} for ${order.amount} tokens` : `${order.amount} ${side} shares`;
+  const comparison = direction === 'LTE' ? '≤' : '≥';
+  return `${label}: ${action === 'BUY' ? 'buy' : 'sell'} ${size} when ${side} ${comparison} ${MarketCalculations.formatPrice(order.triggerPrice)}`;
+}
+
+export function isOrderTriggered(order: ConditionalOrder, yesLiquidity: bigint, noLiquidity: bigint): boolean {
+  if (order.status !== 'OPEN') {
+    return false;
+  }
+  const prices = MarketCalculations.calculatePrices(yesLiquidity, noLiquidity);
+  const price = order.side === 1 ? prices.yesPrice : prices.noPrice;
+  return ORDER_KINDS[order.kind].direction === 'LTE' ? price <= order.triggerPrice : price >= order.triggerPrice;
+}
+
+// Size to submit now: buys spend at most the balance, sells never exceed the shares held
+export function resolveOrderAmount(order: ConditionalOrder, balance: number, yesShares: number, noShares: number): number {
+  if (ORDER_KINDS[order.kind].action === 'BUY') {
+    return Math.min(order.amount ?? 0, balance);
+  }
+  const held = order.side === 1 ? yesShares : noShares;
+  return Math.min(order.amount ?? held, held);
+}
+
+export function appendOrderLog(log: ConditionalOrderLogEntry[], orderId: string, message: string, now = new Date()) {
+  return [{ orderId, timestamp: now, message }, ...log].slice(0, MAX_ORDER_LOG_ENTRIES);
+}
+
+const storedOrderSchema = z.object({
+  id: z.string(),
+  marketId: z.string(),
+  kind: z.enum(['LIMIT_BUY', 'LIMIT_SELL', 'STOP_LOSS', 'TAKE_PROFIT']),
+  side: z.union([z.literal(0), z.literal(1)]),
+  amount: z.number().nullable(),
+  triggerPrice: z.number(),
+  status: z.enum(['OPEN', 'SUBMITTING', 'FILLED', 'FAILED', 'CANCELLED']),
+  createdAt: z.coerce.date(),
+  settledAt: z.coerce.date().optional(),
+  error: z.string().optional(),
+});
+
+const storedOrderBookSchema = z.object({
+  orders: z.array(z.unknown()),
+  log: z.array(z.object({ orderId: z.string(), timestamp: z.coerce.date(), message: z.string() })),
+});
+
+export function serializeOrderBook(book: OrderBook): string {
+  return JSON.stringify({ orders: book.orders, log: book.log.slice(0, MAX_ORDER_LOG_ENTRIES) });
+}
+
+// Restore a persisted book. An order caught mid-submission by a reload may or may not have
+// landed, so it is failed rather than retried.
+export function deserializeOrderBook(raw: string | null): OrderBook {
+  if (!raw) {
+    return { orders: [], log: [] };
+  }
+  try {
+    const parsed = storedOrderBookSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      return { orders: [], log: [] };
+    }
+    const orders = parsed.data.orders.flatMap((entry) => {
+      const result = storedOrderSchema.safeParse(entry);
+      if (!result.success) {
+        return [];
+      }
+      const order = result.data as ConditionalOrder;
+      return [order.status === 'SUBMITTING'
+        ? { ...order, status: 'FAILED' as const, error: 'Interrupted while submitting; check your history' }
+        : order];
+    });
+    return { orders, log: parsed.data.log };
+  } catch {
+    return { orders: [], log: [] };
+  }
+}
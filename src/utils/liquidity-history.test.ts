@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { LIQUIDITY_HISTORY_PAGE_SIZE, mergeHistoryPoints, olderHistoryRange, olderHistoryRanges } from './liquidity-history';
+
+describe('olderHistoryRange', () => {
+  it('asks for the page just before the oldest requested counter', () => {
+    expect(olderHistoryRange(1000, 0)).toEqual({ from: 1000 - LIQUIDITY_HISTORY_PAGE_SIZE, to: 999 });
+  });
+
+  it('stops at the market start', () => {
+    expect(olderHistoryRange(950, 900)).toEqual({ from: 900, to: 949 });
+    expect(olderHistoryRange(900, 900)).toBeNull();
+    expect(olderHistoryRange(850, 900)).toBeNull();
+  });
+
+  it('walks back page by page without gaps or overlap', () => {
+    const pages = [];
+    let floor = 350;
+    for (let range = olderHistoryRange(floor, 0, 100); range; range = olderHistoryRange(floor, 0, 100)) {
+      pages.push(range);
+      floor = range.from;
+    }
+    expect(pages).toEqual([
+      { from: 250, to: 349 },
+      { from: 150, to: 249 },
+      { from: 50, to: 149 },
+      { from: 0, to: 49 },
+    ]);
+  });
+});
+
+describe('olderHistoryRanges', () => {
+  it('lists the pages back to the target, newest first', () => {
+    expect(olderHistoryRanges(350, 0, 10, 100)).toEqual([
+      { from: 250, to: 349 },
+      { from: 150, to: 249 },
+      { from: 50, to: 149 },
+      { from: 0, to: 49 },
+    ]);
+  });
+
+  it('stops after the page cap so the next load continues from there', () => {
+    const first = olderHistoryRanges(1000, 0, 3, 100);
+    expect(first.map((range) => range.from)).toEqual([900, 800, 700]);
+    expect(olderHistoryRanges(first[first.length - 1].from, 0, 3, 100)[0]).toEqual({ from: 600, to: 699 });
+  });
+
+  it('returns nothing once the target is covered', () => {
+    expect(olderHistoryRanges(500, 500)).toEqual([]);
+  });
+});
+
+describe('mergeHistoryPoints', () => {
+  it('prepends older pages and keeps counter order', () => {
+    const merged = mergeHistoryPoints(
+      [{ counter: 5, value: 'a' }, { counter: 6, value: 'b' }],
+      [{ counter: 3, value: 'c' }, { counter: 4, value: 'd' }]
+    );
+    expect(merged.map((point) => point.counter)).toEqual([3, 4, 5, 6]);
+  });
+
+  it('lets the incoming page replace overlapping counters', () => {
+    const merged = mergeHistoryPoints(
+      [{ counter: 5, value: 'old' }, { counter: 6, value: 'kept' }],
+      [{ counter: 5, value: 'new' }, { counter: 7, value: 'added' }]
+    );
+    expect(merged).toEqual([
+      { counter: 5, value: 'new' },
+      { counter: 6, value: 'kept' },
+      { counter: 7, value: 'added' },
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+// Paging through a market's liquidity history by counter range
+
+// The server returns at most this many snapshots per liquidity query
+export const LIQUIDITY_HISTORY_PAGE_SIZE = 100;
+
+// Most pages fetched for one ranged load, requested together
+export const MAX_HISTORY_PAGES_PER_LOAD = 10;
+
+export interface CounterRange {
+  from: number;
+  to: number;
+}
+
+// Next page older than everything requested so far, or null once the market's
+// first counter has been covered
+export function olderHistoryRange(
+  historyFloor: number,
+  firstCounter: number,
+  pageSize: number = LIQUIDITY_HISTORY_PAGE_SIZE
+): CounterRange | null {
+  if (historyFloor <= firstCounter) {
+    return null;
+  }
+  const to = historyFloor - 1;
+  return { from: Math.max(firstCounter, to - pageSize + 1), to };
+}
+
+// Pages older than `historyFloor`, newest first, back to `targetCounter`. At most
+// `maxPages` are returned so a long market loads in bounded steps
+export function olderHistoryRanges(
+  historyFloor: number,
+  targetCounter: number,
+  maxPages: number = MAX_HISTORY_PAGES_PER_LOAD,
+  pageSize: number = LIQUIDITY_HISTORY_PAGE_SIZE
+): CounterRange[] {
+  const ranges: CounterRange[] = [];
+  let range = olderHistoryRange(historyFloor, targetCounter, pageSize);
+  while (range && ranges.length < maxPages) {
+    ranges.push(range);
+    range = olderHistoryRange(range.from, targetCounter, pageSize);
+  }
+  return ranges;
+}
+
+// Merge a page into loaded history, keeping one point per counter in counter order;
+// the incoming page wins because it reflects the latest server state
+export function mergeHistoryPoints<T extends { counter: number }>(existing: T[], incoming: T[]): T[] {
+  const byCounter = new Map<number, T>();
+  for (const point of existing) {
+    byCounter.set(point.counter, point);
+  }
+  for (const point of incoming) {
+    byCounter.set(point.counter, point);
+  }
+  return [...byCounter.values()].sort((a, b) => a.counter - b.counter);
+}
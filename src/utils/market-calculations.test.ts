@@ -0,0 +1,327 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import {
+  formatTimeRemaining,
+  getLiveMarketStatus,
+  getMarketStatus,
+  getMarketStatusAt,
+  MarketCalculations,
+  MarketStatus,
+} from './market-calculations';
+import { counterToTime, createClockFromConfig } from './rollup-clock';
+
+// Golden vectors are worked by hand from the backend's constant product rule:
+// k = yes * no, the paid-in side grows by the amount, the other side becomes
+// floor(k / new side) and the difference is paid out.
+
+// Apply a buy to the pool the same way the backend updates liquidity
+const applyBuy = (betType: 0 | 1, amount: number, yes: bigint, no: bigint) => {
+  const amountBig = BigInt(amount);
+  if (betType === 1) {
+    const newNo = no + amountBig;
+    return { yes: (yes * no) / newNo, no: newNo };
+  }
+  const newYes = yes + amountBig;
+  return { yes: newYes, no: (yes * no) / newYes };
+};
+
+describe('MarketCalculations.calculatePrices', () => {
+  it.each([
+    [1000000n, 1000000n, 0.5, 0.5],
+    [800000n, 1200000n, 0.6, 0.4],
+    [1n, 2n, 0.6666, 0.3333],
+    [0n, 0n, 0.5, 0.5],
+  ])('prices yes=%s no=%s', (yes, no, yesPrice, noPrice) => {
+    expect(MarketCalculations.calculatePrices(yes, no)).toEqual({ yesPrice, noPrice });
+  });
+});
+
+describe('MarketCalculations.calculateSharesForBet', () => {
+  it.each([
+    // 1e12 / 1_010_000 = 990_099.0099 -> 1_000_000 - 990_099
+    [1, 10000, 1000000n, 1000000n, 9901],
+    [0, 10000, 1000000n, 1000000n, 9901],
+    // 9.6e11 / 1_450_000 = 662_068.97 -> 800_000 - 662_068
+    [1, 250000, 800000n, 1200000n, 137932],
+    // 9.6e11 / 1_050_000 = 914_285.71 -> 1_200_000 - 914_285
+    [0, 250000, 800000n, 1200000n, 285715],
+    // 1e12 / 1_000_001 = 999_999.000001 -> 1_000_000 - 999_999
+    [1, 1, 1000000n, 1000000n, 1],
+    // 1e12 / 2_000_000 = 500_000 exactly
+    [1, 1000000, 1000000n, 1000000n, 500000],
+    [1, 0, 1000000n, 1000000n, 0],
+  ] as const)('betType=%i amount=%i yes=%s no=%s -> %i shares', (betType, amount, yes, no, shares) => {
+    expect(MarketCalculations.calculateSharesForBet(betType, amount, yes, no)).toBe(shares);
+  });
+
+  it('floors fractional amounts before converting to bigint', () => {
+    expect(MarketCalculations.calculateSharesForBet(1, 10000.99, 1000000n, 1000000n)).toBe(9901);
+  });
+
+  it('handles liquidity above the u32 range exactly', () => {
+    // 1e36 / 1.001e18 = 999_000_999_000_999_000.999 -> 1e18 - 999_000_999_000_999_000
+    const liquidity = 10n ** 18n;
+    expect(MarketCalculations.calculateSharesForBet(1, 1e15, liquidity, liquidity)).toBe(999000999001000);
+  });
+
+  it('rounds results above Number.MAX_SAFE_INTEGER to the nearest double', () => {
+    // 1e36 / 1.1e18 = 909_090_909_090_909_090.9 -> 1e18 - 909_090_909_090_909_090
+    const liquidity = 10n ** 18n;
+    expect(MarketCalculations.calculateSharesForBet(1, 1e17, liquidity, liquidity)).toBe(Number(90909090909090910n));
+  });
+
+  it('returns no shares from an empty pool', () => {
+    expect(MarketCalculations.calculateSharesForBet(1, 1000, 0n, 0n)).toBe(0);
+    expect(MarketCalculations.calculateSharesForBet(0, 1000, 0n, 0n)).toBe(0);
+  });
+
+  it('throws on a zero amount against an empty pool', () => {
+    expect(() => MarketCalculations.calculateSharesForBet(1, 0, 0n, 0n)).toThrow(RangeError);
+  });
+});
+
+describe('MarketCalculations.calculateAmountForShares', () => {
+  it.each([
+    // 1e12 / 1_009_901 = 990_196.07 -> 1_000_000 - 990_196
+    [1, 9901, 1000000n, 1000000n, 9804],
+    // 9.6e11 / 1_205_000 = 796_680.50 -> 800_000 - 796_680
+    [0, 5000, 800000n, 1200000n, 3320],
+    // 9.6e11 / 805_000 = 1_192_546.58 -> 1_200_000 - 1_192_546
+    [1, 5000, 800000n, 1200000n, 7454],
+    [1, 0, 1000000n, 1000000n, 0],
+  ] as const)('sellType=%i shares=%i yes=%s no=%s -> %i tokens', (sellType, shares, yes, no, amount) => {
+    expect(MarketCalculations.calculateAmountForShares(sellType, shares, yes, no)).toBe(amount);
+  });
+
+  it('handles liquidity above the u32 range exactly', () => {
+    // Mirror of the buy: 1e36 / 1.001e18 floors to 999_000_999_000_999_000
+    const liquidity = 10n ** 18n;
+    expect(MarketCalculations.calculateAmountForShares(1, 1e15, liquidity, liquidity)).toBe(999000999001000);
+  });
+
+  it('returns nothing when the opposite side is empty', () => {
+    expect(MarketCalculations.calculateAmountForShares(1, 1000, 1000000n, 0n)).toBe(0);
+  });
+});
+
+describe('MarketCalculations.calculateMarketImpact', () => {
+  it('matches the golden vector for a 10k YES buy into a balanced pool', () => {
+    // 9901 shares for 10000 is 1.0099990 a share against a 0.5 price: impact 1.019998.
+    // The pool moves to 990_099 / 1_010_000, so YES is floor(5049.75) / 1e4 = 0.5049
+    // and the price moved 0.0049 / 0.5 = 0.0098.
+    const impact = MarketCalculations.calculateMarketImpact(1, 10000, 1000000n, 1000000n);
+    expect(impact.newPrice).toBe(0.5049);
+    expect(impact.priceImpact).toBeCloseTo(1.019998, 6);
+    expect(impact.slippage).toBeCloseTo(0.0098, 10);
+  });
+
+  it('moves the NO price symmetrically for a NO buy', () => {
+    const yesImpact = MarketCalculations.calculateMarketImpact(1, 10000, 1000000n, 1000000n);
+    const noImpact = MarketCalculations.calculateMarketImpact(0, 10000, 1000000n, 1000000n);
+    expect(noImpact.newPrice).toBe(yesImpact.newPrice);
+    expect(noImpact.slippage).toBe(yesImpact.slippage);
+  });
+});
+
+describe('MarketCalculations.calculateFees', () => {
+  it.each([
+    [0, 0],
+    [1, 1],
+    [150, 2],
+    [10000, 100],
+    [1000000, 10000],
+  ])('fee on %i is %i', (amount, fee) => {
+    expect(MarketCalculations.calculateFees(amount)).toBe(fee);
+  });
+});
+
+describe('MarketCalculations properties', () => {
+  // Realistic pools: both sides at least 1e5 and roughly 100:1 apart at most
+  const pool = fc
+    .tuple(fc.bigInt({ min: 100000n, max: 1000000000000n }), fc.integer({ min: -200, max: 200 }))
+    .map(([yes, skew]) => {
+      const ratioBps = BigInt(Math.round(10000 * Math.pow(100, skew / 200)));
+      const no = (yes * ratioBps) / 10000n;
+      return { yes, no: no < 100000n ? 100000n : no };
+    });
+  const anyPool = fc.record({ yes: fc.bigInt({ min: 1n, max: 1000000000000n }), no: fc.bigInt({ min: 1n, max: 1000000000000n }) });
+  const side = fc.constantFrom<0 | 1>(0, 1);
+  const amount = fc.integer({ min: 10000, max: 1000000000 });
+  const anyAmount = fc.integer({ min: 0, max: 1000000000 });
+
+  // Flooring the bought side after a buy can hand out up to one share more than the
+  // exact curve, so a round trip may return up to one share's price plus a token over
+  // what was spent. That exceeds the 1% fee on small trades, most of all in skewed pools.
+  it('buy then sell returns at most one share and a token more than was spent', () => {
+    fc.assert(fc.property(anyPool, side, anyAmount, ({ yes, no }, betType, spent) => {
+      const fee = MarketCalculations.calculateFees(spent);
+      const netAmount = spent - fee;
+      const shares = MarketCalculations.calculateSharesForBet(betType, netAmount, yes, no);
+      const after = applyBuy(betType, netAmount, yes, no);
+      const gross = MarketCalculations.calculateAmountForShares(betType, shares, after.yes, after.no);
+      const received = gross - MarketCalculations.calculateFees(gross);
+      const sharePrice = betType === 1 ? Number(after.no) / Number(yes) : Number(after.yes) / Number(no);
+      expect(received).toBeLessThan(spent + sharePrice + 1);
+    }));
+  });
+
+  it('lets a tiny buy into a skewed pool round-trip at a profit', () => {
+    // 1 net token buys floor-rounded 1 YES share worth about 1000 tokens
+    const after = applyBuy(1, 1, 1000n, 1000000n);
+    expect(MarketCalculations.calculateSharesForBet(1, 1, 1000n, 1000000n)).toBe(1);
+    expect(MarketCalculations.calculateAmountForShares(1, 1, after.yes, after.no)).toBe(1001);
+  });
+
+  it('never pays out more shares than the pool holds', () => {
+    fc.assert(fc.property(pool, side, amount, ({ yes, no }, betType, spent) => {
+      const shares = MarketCalculations.calculateSharesForBet(betType, spent, yes, no);
+      expect(shares).toBeGreaterThanOrEqual(0);
+      expect(shares).toBeLessThan(Number(betType === 1 ? yes : no));
+    }));
+  });
+
+  it('gives more shares for a larger bet', () => {
+    fc.assert(fc.property(pool, side, amount, amount, ({ yes, no }, betType, a, b) => {
+      const [small, large] = a <= b ? [a, b] : [b, a];
+      expect(MarketCalculations.calculateSharesForBet(betType, small, yes, no))
+        .toBeLessThanOrEqual(MarketCalculations.calculateSharesForBet(betType, large, yes, no));
+    }));
+  });
+
+  it('raises the price of the side being bought', () => {
+    fc.assert(fc.property(pool, side, amount, ({ yes, no }, betType, spent) => {
+      const before = MarketCalculations.calculatePrices(yes, no);
+      const after = applyBuy(betType, spent, yes, no);
+      const prices = MarketCalculations.calculatePrices(after.yes, after.no);
+      if (betType === 1) {
+        expect(prices.yesPrice).toBeGreaterThanOrEqual(before.yesPrice);
+      } else {
+        expect(prices.noPrice).toBeGreaterThanOrEqual(before.noPrice);
+      }
+    }));
+  });
+
+  it('keeps YES and NO prices summing to one within precision', () => {
+    fc.assert(fc.property(pool, ({ yes, no }) => {
+      const { yesPrice, noPrice } = MarketCalculations.calculatePrices(yes, no);
+      expect(yesPrice + noPrice).toBeGreaterThan(1 - 2 / MarketCalculations.PRECISION);
+      expect(yesPrice + noPrice).toBeLessThanOrEqual(1);
+    }));
+  });
+});
+
+describe('getMarketStatus', () => {
+  const start = 100;
+  const end = 200;
+  const resolution = 300;
+
+  it.each([
+    [0, MarketStatus.WAIT_START, 500, '8m 20s'],
+    [99, MarketStatus.WAIT_START, 5, '5s'],
+    [100, MarketStatus.ACTIVE_TRADING, 500, '8m 20s'],
+    [199, MarketStatus.ACTIVE_TRADING, 5, '5s'],
+    [200, MarketStatus.WAIT_RESOLUTION, 500, '8m 20s'],
+    [299, MarketStatus.WAIT_RESOLUTION, 5, '5s'],
+    [300, MarketStatus.PENDING_RESOLUTION, 0, 'Awaiting Resolution'],
+    [5000, MarketStatus.PENDING_RESOLUTION, 0, 'Awaiting Resolution'],
+  ])('counter %i is %s with %is left (%s)', (counter, status, timeRemaining, text) => {
+    const info = getMarketStatus(counter, start, end, resolution, false);
+    expect(info.status).toBe(status);
+    expect(info.timeRemaining).toBe(timeRemaining);
+    expect(info.timeRemainingText).toBe(text);
+  });
+
+  it('reports resolved markets regardless of counter', () => {
+    for (const counter of [0, 150, 250, 1000]) {
+      expect(getMarketStatus(counter, start, end, resolution, true)).toEqual({
+        status: MarketStatus.RESOLVED,
+        statusText: 'Resolved',
+        timeRemaining: 0,
+        timeRemainingText: 'Market Resolved',
+      });
+    }
+  });
+
+  it('formats long durations as days, hours and minutes', () => {
+    // 18013 counters * 5s = 90065s = 1d 1h 1m 5s
+    expect(getMarketStatus(0, 18013, 20000, 30000, false).timeRemainingText).toBe('1d 1h 1m');
+    // 732 counters * 5s = 3660s = 1h 1m
+    expect(getMarketStatus(0, 732, 1000, 2000, false).timeRemainingText).toBe('1h 1m');
+  });
+
+  it('honours a custom counter interval', () => {
+    expect(getMarketStatus(0, 10, 20, 30, false, 60).timeRemaining).toBe(600);
+  });
+
+  it('walks a market through its whole lifecycle in order', () => {
+    const order = [
+      MarketStatus.WAIT_START,
+      MarketStatus.ACTIVE_TRADING,
+      MarketStatus.WAIT_RESOLUTION,
+      MarketStatus.PENDING_RESOLUTION,
+    ];
+    let previous = 0;
+    for (let counter = 0; counter <= 400; counter++) {
+      const index = order.indexOf(getMarketStatus(counter, start, end, resolution, false).status);
+      expect(index).toBeGreaterThanOrEqual(previous);
+      previous = index;
+    }
+    expect(previous).toBe(order.length - 1);
+  });
+});
+
+describe('getLiveMarketStatus', () => {
+  const observedAt = 1_000_000;
+
+  it('matches getMarketStatus at the moment of observation', () => {
+    expect(getLiveMarketStatus(150, observedAt, observedAt, 100, 200, 300, false))
+      .toEqual(getMarketStatus(150, 100, 200, 300, false));
+  });
+
+  it('counts down every second between counters', () => {
+    const info = getLiveMarketStatus(199, observedAt, observedAt + 3000, 100, 200, 300, false);
+    expect(info.status).toBe(MarketStatus.ACTIVE_TRADING);
+    expect(info.timeRemaining).toBe(2);
+    expect(info.timeRemainingText).toBe('2s');
+  });
+
+  it('moves into the next phase once the extrapolated counter crosses it', () => {
+    const info = getLiveMarketStatus(199, observedAt, observedAt + 5000, 100, 200, 300, false);
+    expect(info.status).toBe(MarketStatus.WAIT_RESOLUTION);
+    expect(info.timeRemaining).toBe(500);
+  });
+
+  it('ignores clock skew that puts now before the observation', () => {
+    expect(getLiveMarketStatus(150, observedAt, observedAt - 60000, 100, 200, 300, false).timeRemaining).toBe(250);
+  });
+});
+
+describe('getMarketStatusAt', () => {
+  const clock = createClockFromConfig({ genesis_timestamp: 1_700_000_000, counter_interval: 5 })!;
+
+  it('counts down to the wall-clock time of the next phase boundary', () => {
+    const now = counterToTime(clock, 150) + 2500;
+    const info = getMarketStatusAt(clock, now, 100, 200, 300, false);
+    expect(info.status).toBe(MarketStatus.ACTIVE_TRADING);
+    expect(info.timeRemaining).toBe(248);
+  });
+
+  it('has no countdown once resolution is pending or done', () => {
+    const now = counterToTime(clock, 400);
+    expect(getMarketStatusAt(clock, now, 100, 200, 300, false).status).toBe(MarketStatus.PENDING_RESOLUTION);
+    expect(getMarketStatusAt(clock, now, 100, 200, 300, true).timeRemaining).toBe(0);
+  });
+});
+
+describe('formatTimeRemaining', () => {
+  it.each([
+    [0, '0s'],
+    [-5, '0s'],
+    [59, '59s'],
+    [61, '1m 1s'],
+    [3600, '1h 0m'],
+    [90061, '1d 1h 1m'],
+  ])('formats %i seconds as %s', (seconds, text) => {
+    expect(formatTimeRemaining(seconds)).toBe(text);
+  });
+});
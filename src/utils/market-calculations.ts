@@ -1,5 +1,6 @@
 // AMM calculation utilities for the prediction market
 import { MarketImpact, MarketPrices } from '../types/market';
+import { createObservedClock, RollupClock, secondsUntilCounter, timeToCounter } from './rollup-clock';
 
 export class MarketCalculations {
   // Constants from the Rust backend
@@ -185,6 +186,28 @@ export interface MarketStatusInfo {
   timeRemainingText: string;
 }
 
+/**
+ * Format a duration in seconds as e.g. "1d 2h 3m", "4m 5s" or "6s"
+ */
+export function formatTimeRemaining(seconds: number): string {
+  if (seconds <= 0) return "0s";
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  } else if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  } else {
+    return `${secs}s`;
+  }
+}
+
 /**
  * Determine market status based on current counter and market timing
  */
@@ -196,25 +219,6 @@ export function getMarketStatus(
   resolved: boolean,
   counterInterval: number = 5 // 5 seconds per counter
 ): MarketStatusInfo {
-  const formatTimeRemaining = (seconds: number): string => {
-    if (seconds <= 0) return "0s";
-    
-    const days = Math.floor(seconds / 86400);
-    const hours = Math.floor((seconds % 86400) / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    
-    if (days > 0) {
-      return `${days}d ${hours}h ${minutes}m`;
-    } else if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${secs}s`;
-    } else {
-      return `${secs}s`;
-    }
-  };
-
   // If market is already resolved
   if (resolved) {
     return {
@@ -269,3 +273,63 @@ export function getMarketStatus(
     timeRemainingText: "Awaiting Resolution"
   };
 }
+
+// Counter at which the current phase ends, or null once no countdown applies
+const phaseEndCounter = (status: MarketStatus, startTime: number, endTime: number, resolutionTime: number): number | null => {
+  switch (status) {
+    case MarketStatus.WAIT_START:
+      return startTime;
+    case MarketStatus.ACTIVE_TRADING:
+      return endTime;
+    case MarketStatus.WAIT_RESOLUTION:
+      return resolutionTime;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Market status at wall-clock `now` (ms), with countdowns measured against the
+ * times the rollup clock assigns to each phase boundary
+ */
+export function getMarketStatusAt(
+  clock: RollupClock,
+  now: number,
+  startTime: number,
+  endTime: number,
+  resolutionTime: number,
+  resolved: boolean
+): MarketStatusInfo {
+  const info = getMarketStatus(
+    timeToCounter(clock, now),
+    startTime,
+    endTime,
+    resolutionTime,
+    resolved,
+    clock.intervalMs / 1000
+  );
+  const target = phaseEndCounter(info.status, startTime, endTime, resolutionTime);
+  if (target === null) {
+    return info;
+  }
+  const timeRemaining = secondsUntilCounter(clock, target, now);
+  return { ...info, timeRemaining, timeRemainingText: formatTimeRemaining(timeRemaining) };
+}
+
+/**
+ * Market status extrapolated to `now` from a counter observed at `observedAt` (ms),
+ * so countdowns can tick every second between polls
+ */
+export function getLiveMarketStatus(
+  observedCounter: number,
+  observedAt: number,
+  now: number,
+  startTime: number,
+  endTime: number,
+  resolutionTime: number,
+  resolved: boolean,
+  counterInterval: number = 5
+): MarketStatusInfo {
+  const clock = createObservedClock(observedCounter, observedAt, counterInterval * 1000);
+  return getMarketStatusAt(clock, Math.max(now, observedAt), startTime, endTime, resolutionTime, resolved);
+}
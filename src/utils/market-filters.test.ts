@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { MarketResponse } from '../services/schemas';
+import {
+  DEFAULT_MARKET_LIST_QUERY,
+  FilterableMarket,
+  filterAndSortMarkets,
+  MarketListQuery,
+  parseMarketListQuery,
+  toMarketListSearchParams,
+} from './market-filters';
+
+const market = (overrides: Partial<MarketResponse> & { description?: string }): FilterableMarket => {
+  const { description, ...fields } = overrides;
+  return {
+    marketId: '1',
+    titleString: 'Will BTC close above 100k?',
+    yesLiquidity: '1000000',
+    noLiquidity: '1000000',
+    prizePool: '0',
+    totalVolume: '0',
+    totalFeesCollected: '0',
+    resolved: false,
+    outcome: null,
+    startTime: 0,
+    endTime: 1000,
+    resolutionTime: 2000,
+    ...fields,
+    sanityData: description === undefined ? undefined : { description },
+  };
+};
+
+// Counter 500: market 1 trading, 2 not started, 3 awaiting resolution, 4 resolved
+const markets = [
+  market({ marketId: '1', totalVolume: '500', prizePool: '90', endTime: 1000 }),
+  market({ marketId: '2', titleString: 'DOGE to the moon', startTime: 600, endTime: 900, totalVolume: '100', yesLiquidity: '3000000', description: 'Memecoin season' }),
+  market({ marketId: '3', titleString: 'ETH flips BTC', startTime: 0, endTime: 400, resolutionTime: 800, totalVolume: '900', noLiquidity: '4000000' }),
+  market({ marketId: '4', titleString: 'SOL ETF approved', resolved: true, outcome: true, totalVolume: '10000000000000000000', prizePool: '5' }),
+];
+
+const ids = (query: Partial<MarketListQuery>) =>
+  filterAndSortMarkets(markets, { ...DEFAULT_MARKET_LIST_QUERY, ...query }, 500).map((m) => m.marketId);
+
+describe('filterAndSortMarkets', () => {
+  it('lists newest markets first by default', () => {
+    expect(ids({})).toEqual(['4', '3', '2', '1']);
+  });
+
+  it.each([
+    ['upcoming', ['2']],
+    ['active', ['1']],
+    ['awaiting', ['3']],
+    ['resolved', ['4']],
+  ] as const)('filters %s markets', (status, expected) => {
+    expect(ids({ status })).toEqual(expected);
+  });
+
+  it('searches titles and Sanity descriptions case-insensitively', () => {
+    expect(ids({ search: 'btc' })).toEqual(['3', '1']);
+    expect(ids({ search: 'MEMECOIN' })).toEqual(['2']);
+    expect(ids({ search: 'eth btc' })).toEqual(['3']);
+    expect(ids({ search: 'nothing here' })).toEqual([]);
+  });
+
+  it('sorts by u64 volume without losing precision', () => {
+    expect(ids({ sort: 'volume', direction: 'desc' })).toEqual(['4', '3', '1', '2']);
+  });
+
+  it('sorts by closing time soonest first', () => {
+    expect(ids({ sort: 'closing', direction: 'asc' })).toEqual(['3', '2', '1', '4']);
+  });
+
+  it('sorts by YES probability and liquidity', () => {
+    expect(ids({ sort: 'probability', direction: 'desc' })).toEqual(['3', '1', '4', '2']);
+    expect(ids({ sort: 'liquidity', direction: 'desc' })).toEqual(['3', '2', '1', '4']);
+  });
+
+  it('combines filters, search and sort', () => {
+    expect(ids({ status: 'awaiting', search: 'eth', sort: 'prizePool' })).toEqual(['3']);
+  });
+});
+
+describe('market list URL params', () => {
+  it('falls back to defaults for missing or unknown values', () => {
+    expect(parseMarketListQuery(new URLSearchParams(''))).toEqual(DEFAULT_MARKET_LIST_QUERY);
+    expect(parseMarketListQuery(new URLSearchParams('status=bogus&sort=nope&dir=up'))).toEqual(DEFAULT_MARKET_LIST_QUERY);
+  });
+
+  it('uses the sort key default direction when none is given', () => {
+    expect(parseMarketListQuery(new URLSearchParams('sort=closing')).direction).toBe('asc');
+  });
+
+  it('round-trips a query and omits defaults', () => {
+    const query: MarketListQuery = { status: 'active', search: 'btc', sort: 'volume', direction: 'asc' };
+    const params = toMarketListSearchParams(query);
+    expect(params.toString()).toBe('status=active&q=btc&sort=volume&dir=asc');
+    expect(parseMarketListQuery(params)).toEqual(query);
+    expect(toMarketListSearchParams(DEFAULT_MARKET_LIST_QUERY).toString()).toBe('');
+  });
+});
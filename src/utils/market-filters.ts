@@ -0,0 +1,154 @@
+import { MarketResponse } from '../services/schemas';
+import { getMarketStatus, MarketStatus } from './market-calculations';
+
+export type MarketStatusFilter = 'all' | 'upcoming' | 'active' | 'awaiting' | 'resolved';
+export type MarketSortKey = 'id' | 'volume' | 'liquidity' | 'prizePool' | 'closing' | 'probability';
+export type SortDirection = 'asc' | 'desc';
+
+export interface MarketListQuery {
+  status: MarketStatusFilter;
+  search: string;
+  sort: MarketSortKey;
+  direction: SortDirection;
+}
+
+// Minimal market shape the list filters need; Sanity data is optional
+export interface FilterableMarket extends MarketResponse {
+  sanityData?: { description?: string };
+}
+
+export const STATUS_FILTER_OPTIONS: { value: MarketStatusFilter; label: string }[] = [
+  { value: 'all', label: 'All Markets' },
+  { value: 'upcoming', label: 'Not Started' },
+  { value: 'active', label: 'Trading Active' },
+  { value: 'awaiting', label: 'Awaiting Resolution' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+export const SORT_OPTIONS: { value: MarketSortKey; label: string }[] = [
+  { value: 'id', label: 'Newest' },
+  { value: 'volume', label: 'Volume' },
+  { value: 'liquidity', label: 'Liquidity' },
+  { value: 'prizePool', label: 'Prize Pool' },
+  { value: 'closing', label: 'Closing Soon' },
+  { value: 'probability', label: 'YES Probability' },
+];
+
+// Closing time reads naturally soonest-first; every other key biggest-first
+export const DEFAULT_SORT_DIRECTION: Record<MarketSortKey, SortDirection> = {
+  id: 'desc',
+  volume: 'desc',
+  liquidity: 'desc',
+  prizePool: 'desc',
+  closing: 'asc',
+  probability: 'desc',
+};
+
+export const DEFAULT_MARKET_LIST_QUERY: MarketListQuery = {
+  status: 'all',
+  search: '',
+  sort: 'id',
+  direction: DEFAULT_SORT_DIRECTION.id,
+};
+
+const STATUS_GROUPS: Record<Exclude<MarketStatusFilter, 'all'>, MarketStatus[]> = {
+  upcoming: [MarketStatus.WAIT_START],
+  active: [MarketStatus.ACTIVE_TRADING],
+  awaiting: [MarketStatus.WAIT_RESOLUTION, MarketStatus.PENDING_RESOLUTION],
+  resolved: [MarketStatus.RESOLVED],
+};
+
+const isStatusFilter = (value: string | null): value is MarketStatusFilter =>
+  value !== null && STATUS_FILTER_OPTIONS.some((option) => option.value === value);
+
+const isSortKey = (value: string | null): value is MarketSortKey =>
+  value !== null && SORT_OPTIONS.some((option) => option.value === value);
+
+// Read the list query from URL params, ignoring unknown values
+export function parseMarketListQuery(params: URLSearchParams): MarketListQuery {
+  const status = params.get('status');
+  const sort = params.get('sort');
+  const direction = params.get('dir');
+  const sortKey = isSortKey(sort) ? sort : DEFAULT_MARKET_LIST_QUERY.sort;
+  return {
+    status: isStatusFilter(status) ? status : DEFAULT_MARKET_LIST_QUERY.status,
+    search: params.get('q') ?? '',
+    sort: sortKey,
+    direction: direction === 'asc' || direction === 'desc' ? direction : DEFAULT_SORT_DIRECTION[sortKey],
+  };
+}
+
+// Write the list query to URL params, leaving defaults out so plain URLs stay clean
+export function toMarketListSearchParams(query: MarketListQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.status !== DEFAULT_MARKET_LIST_QUERY.status) {
+    params.set('status', query.status);
+  }
+  if (query.search.trim()) {
+    params.set('q', query.search);
+  }
+  if (query.sort !== DEFAULT_MARKET_LIST_QUERY.sort) {
+    params.set('sort', query.sort);
+  }
+  if (query.direction !== DEFAULT_SORT_DIRECTION[query.sort]) {
+    params.set('dir', query.direction);
+  }
+  return params;
+}
+
+export function getMarketStatusForCounter(market: MarketResponse, counter: number): MarketStatus {
+  return getMarketStatus(counter, market.startTime, market.endTime, market.resolutionTime, market.resolved).status;
+}
+
+export function matchesStatusFilter(market: MarketResponse, filter: MarketStatusFilter, counter: number): boolean {
+  if (filter === 'all') {
+    return true;
+  }
+  return STATUS_GROUPS[filter].includes(getMarketStatusForCounter(market, counter));
+}
+
+export function matchesSearch(market: FilterableMarket, search: string): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return true;
+  }
+  const haystack = `${market.titleString} ${market.sanityData?.description ?? ''}`.toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+// YES probability in basis points, matching MarketCalculations.calculatePrices precision
+const yesProbability = (market: MarketResponse): bigint => {
+  const yes = BigInt(market.yesLiquidity);
+  const no = BigInt(market.noLiquidity);
+  const total = yes + no;
+  return total === 0n ? 5000n : (no * 10000n) / total;
+};
+
+const sortValue = (market: MarketResponse, key: MarketSortKey): bigint => {
+  switch (key) {
+    case 'id':
+      return BigInt(market.marketId);
+    case 'volume':
+      return BigInt(market.totalVolume);
+    case 'liquidity':
+      return BigInt(market.yesLiquidity) + BigInt(market.noLiquidity);
+    case 'prizePool':
+      return BigInt(market.prizePool);
+    case 'closing':
+      return BigInt(market.endTime);
+    case 'probability':
+      return yesProbability(market);
+  }
+};
+
+const compareBigInt = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0);
+
+export function filterAndSortMarkets<T extends FilterableMarket>(markets: T[], query: MarketListQuery, counter: number): T[] {
+  const sign = query.direction === 'asc' ? 1 : -1;
+  return markets
+    .filter((market) => matchesStatusFilter(market, query.status, counter) && matchesSearch(market, query.search))
+    .sort((a, b) =>
+      sign * compareBigInt(sortValue(a, query.sort), sortValue(b, query.sort)) ||
+      compareBigInt(BigInt(a.marketId), BigInt(b.marketId))
+    );
+}
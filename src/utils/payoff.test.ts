@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MarketCalculations } from './market-calculations';
+import { exitValue, liquidityAtProbability, payoffCurve, PayoffInput, simulatePayoff } from './payoff';
+
+const input = (overrides: Partial<PayoffInput> = {}): PayoffInput => ({
+  yesShares: 0,
+  noShares: 0,
+  betType: 1,
+  amount: 1000,
+  yesLiquidity: 100000n,
+  noLiquidity: 100000n,
+  ...overrides,
+});
+
+describe('liquidityAtProbability', () => {
+  it('keeps the constant product while moving the price', () => {
+    const pool = liquidityAtProbability(0.8, 100000n, 100000n);
+    expect(MarketCalculations.calculatePrices(pool.yesLiquidity, pool.noLiquidity).yesPrice).toBeCloseTo(0.8, 3);
+    expect(Number(pool.yesLiquidity) * Number(pool.noLiquidity)).toBeCloseTo(1e10, -6);
+  });
+});
+
+describe('exitValue', () => {
+  it('is worth more as the held side becomes likelier', () => {
+    expect(exitValue(1000, 0, 0.8, 100000n, 100000n)).toBeGreaterThan(exitValue(1000, 0, 0.5, 100000n, 100000n));
+    expect(exitValue(0, 1000, 0.8, 100000n, 100000n)).toBeLessThan(exitValue(0, 1000, 0.5, 100000n, 100000n));
+    expect(exitValue(0, 0, 0.5, 100000n, 100000n)).toBe(0);
+  });
+});
+
+describe('simulatePayoff', () => {
+  it('pays the bought shares 1:1 if the side wins and nothing otherwise', () => {
+    const simulation = simulatePayoff(input(), 0.5);
+    expect(simulation.fees).toBe(10);
+    expect(simulation.sharesBought).toBe(MarketCalculations.calculateSharesForBet(1, 990, 100000n, 100000n));
+    expect(simulation.ifYes).toEqual({ positionValue: simulation.sharesBought, tradePnl: simulation.sharesBought - 1000 });
+    expect(simulation.ifNo).toEqual({ positionValue: 0, tradePnl: -1000 });
+  });
+
+  it('adds the trade to shares already held', () => {
+    const simulation = simulatePayoff(input({ yesShares: 500, noShares: 300 }), 0.5);
+    expect(simulation.yesShares).toBe(500 + simulation.sharesBought);
+    expect(simulation.ifYes.positionValue).toBe(500 + simulation.sharesBought);
+    expect(simulation.ifNo).toEqual({ positionValue: 300, tradePnl: -1000 });
+  });
+
+  it('loses fees and slippage on an immediate exit at the current price', () => {
+    const simulation = simulatePayoff(input(), 0.5);
+    expect(simulation.ifExit.tradePnl).toBeLessThan(0);
+    expect(simulation.ifExit.tradePnl).toBeGreaterThan(-100);
+  });
+});
+
+describe('payoffCurve', () => {
+  it('spans the exit range and rises with the bought side', () => {
+    const curve = payoffCurve(input(), 10);
+    expect(curve).toHaveLength(11);
+    expect(curve[0].probability).toBe(0.01);
+    expect(curve[10].probability).toBe(0.99);
+    expect(curve[10].withTrade).toBeGreaterThan(curve[0].withTrade);
+    expect(curve.every((point) => point.withoutTrade === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+// What-if payoffs for a prospective buy, combined with the shares already held
+import { MarketCalculations } from './market-calculations';
+
+// Exit prices stay inside the open interval; the AMM cannot reach 0 or 1
+export const MIN_EXIT_PROBABILITY = 0.01;
+export const MAX_EXIT_PROBABILITY = 0.99;
+
+export interface PayoffInput {
+  yesShares: number;
+  noShares: number;
+  betType: 0 | 1;
+  // Tokens spent, fee included
+  amount: number;
+  yesLiquidity: bigint;
+  noLiquidity: bigint;
+}
+
+export interface PayoffOutcome {
+  // Tokens the whole position returns in this scenario
+  positionValue: number;
+  // Gain of this scenario with the trade over the same scenario without it, net of its cost
+  tradePnl: number;
+}
+
+export interface PayoffSimulation {
+  sharesBought: number;
+  fees: number;
+  yesShares: number;
+  noShares: number;
+  ifYes: PayoffOutcome;
+  ifNo: PayoffOutcome;
+  ifExit: PayoffOutcome;
+  exitProbability: number;
+}
+
+export interface PayoffPoint {
+  probability: number;
+  withTrade: number;
+  withoutTrade: number;
+}
+
+const clampProbability = (probability: number) =>
+  Math.min(MAX_EXIT_PROBABILITY, Math.max(MIN_EXIT_PROBABILITY, probability));
+
+// Pool with the same constant product whose YES price equals `probability`
+export function liquidityAtProbability(probability: number, yesLiquidity: bigint, noLiquidity: bigint) {
+  const p = clampProbability(probability);
+  const k = Number(yesLiquidity) * Number(noLiquidity);
+  return {
+    yesLiquidity: BigInt(Math.round(Math.sqrt((k * (1 - p)) / p))),
+    noLiquidity: BigInt(Math.round(Math.sqrt((k * p) / (1 - p)))),
+  };
+}
+
+// Tokens received selling every share into a pool priced at `probability`, after sell fees.
+// YES is sold first and NO against the pool that sale leaves behind.
+export function exitValue(
+  yesShares: number,
+  noShares: number,
+  probability: number,
+  yesLiquidity: bigint,
+  noLiquidity: bigint
+): number {
+  let pool = liquidityAtProbability(probability, yesLiquidity, noLiquidity);
+  let proceeds = 0;
+  if (yesShares > 0) {
+    const gross = MarketCalculations.calculateAmountForShares(1, yesShares, pool.yesLiquidity, pool.noLiquidity);
+    proceeds += gross - MarketCalculations.calculateFees(gross);
+    const yesAfter = pool.yesLiquidity + BigInt(Math.floor(yesShares));
+    pool = { yesLiquidity: yesAfter, noLiquidity: (pool.yesLiquidity * pool.noLiquidity) / yesAfter };
+  }
+  if (noShares > 0) {
+    const gross = MarketCalculations.calculateAmountForShares(0, noShares, pool.yesLiquidity, pool.noLiquidity);
+    proceeds += gross - MarketCalculations.calculateFees(gross);
+  }
+  return proceeds;
+}
+
+const applyTrade = ({ yesShares, noShares, betType, amount, yesLiquidity, noLiquidity }: PayoffInput) => {
+  const fees = amount > 0 ? MarketCalculations.calculateFees(amount) : 0;
+  const amountAfterFees = amount - fees;
+  const sharesBought = amountAfterFees > 0
+    ? MarketCalculations.calculateSharesForBet(betType, amountAfterFees, yesLiquidity, noLiquidity)
+    : 0;
+  return {
+    fees,
+    sharesBought,
+    yesShares: yesShares + (betType === 1 ? sharesBought : 0),
+    noShares: noShares + (betType === 0 ? sharesBought : 0),
+  };
+};
+
+export function simulatePayoff(input: PayoffInput, exitProbability: number): PayoffSimulation {
+  const after = applyTrade(input);
+  const { yesLiquidity, noLiquidity, amount } = input;
+
+  const outcome = (withTrade: number, withoutTrade: number): PayoffOutcome => ({
+    positionValue: withTrade,
+    tradePnl: withTrade - withoutTrade - amount,
+  });
+
+  return {
+    ...after,
+    ifYes: outcome(after.yesShares, input.yesShares),
+    ifNo: outcome(after.noShares, input.noShares),
+    ifExit: outcome(
+      exitValue(after.yesShares, after.noShares, exitProbability, yesLiquidity, noLiquidity),
+      exitValue(input.yesShares, input.noShares, exitProbability, yesLiquidity, noLiquidity)
+    ),
+    exitProbability: clampProbability(exitProbability),
+  };
+}
+
+// Net tokens from exiting at each YES probability, with and without the trade's cost
+export function payoffCurve(input: PayoffInput, steps: number = 20): PayoffPoint[] {
+  const after = applyTrade(input);
+  const points: PayoffPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const probability = clampProbability(i / steps);
+    points.push({
+      probability,
+      withTrade: exitValue(after.yesShares, after.noShares, probability, input.yesLiquidity, input.noLiquidity) - input.amount,
+      withoutTrade: exitValue(input.yesShares, input.noShares, probability, input.yesLiquidity, input.noLiquidity),
+    });
+  }
+  return points;
+}
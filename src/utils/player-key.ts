@@ -0,0 +1,14 @@
+// Player identity from an L2 public key: the key as u64 limbs, and the pid as its middle two limbs
+import { bnToHexLe } from 'delphinus-curves/src/altjubjub';
+import { LeHexBN } from 'zkwasm-minirollup-rpc';
+
+export type PlayerPubkey = Parameters<typeof bnToHexLe>[0];
+
+export function playerKeyLimbs(pubkey: PlayerPubkey): BigUint64Array {
+  return new LeHexBN(bnToHexLe(pubkey)).toU64Array();
+}
+
+export function playerIdFromPubkey(pubkey: PlayerPubkey): [string, string] {
+  const limbs = playerKeyLimbs(pubkey);
+  return [limbs[1].toString(), limbs[2].toString()];
+}
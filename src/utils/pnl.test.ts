@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { MarketData, UserTransactionEntry } from '../types/market';
+import { MarketCalculations } from './market-calculations';
+import { calculatePositionPnl, replayTrades } from './pnl';
+
+let nextIndex = 0;
+const trade = (betType: number, amount: number, shares: number, counter: number): UserTransactionEntry => ({
+  index: String(nextIndex++),
+  pid: ['1', '2'],
+  betType,
+  amount: String(amount),
+  shares: String(shares),
+  counter: String(counter),
+  __v: 0,
+});
+
+const market = (overrides: Partial<MarketData> = {}): MarketData => ({
+  titleString: 'Test',
+  yes_liquidity: '100000',
+  no_liquidity: '100000',
+  total_volume: '0',
+  resolved: false,
+  outcome: false,
+  total_fees_collected: '0',
+  ...overrides,
+});
+
+describe('replayTrades', () => {
+  it('averages the cost of buys and realizes sells against it', () => {
+    const ledgers = replayTrades([
+      trade(1, 100, 200, 1),
+      trade(1, 300, 200, 2),
+      // Average entry is 1 token per share; selling 100 for 150 realizes 50
+      trade(11, 150, 100, 3),
+    ]);
+    expect(ledgers.YES).toEqual({ shares: 300, costBasis: 300, realizedPnl: 50, complete: true });
+    expect(ledgers.NO).toEqual({ shares: 0, costBasis: 0, realizedPnl: 0, complete: true });
+  });
+
+  it('replays in counter order regardless of how history is listed', () => {
+    const ledgers = replayTrades([trade(12, 60, 100, 5), trade(0, 50, 100, 1)]);
+    expect(ledgers.NO).toEqual({ shares: 0, costBasis: 0, realizedPnl: 10, complete: true });
+  });
+
+  it('realizes only the part of a sell the history shows was bought', () => {
+    // 100 shares bought for 50; selling 400 for 240 matches 100 of them, worth 60
+    const ledgers = replayTrades([trade(1, 50, 100, 1), trade(11, 240, 400, 2)]);
+    expect(ledgers.YES).toEqual({ shares: 0, costBasis: 0, realizedPnl: 10, complete: false });
+  });
+});
+
+describe('calculatePositionPnl', () => {
+  it('values open positions at the current sell quote', () => {
+    const open = market();
+    const pnl = calculatePositionPnl(open, 200, 0, [trade(1, 100, 200, 1)]);
+    const value = MarketCalculations.calculateAmountForShares(1, 200, 100000n, 100000n);
+    expect(pnl.YES).toMatchObject({
+      shares: 200,
+      averageEntryPrice: 0.5,
+      costBasis: 100,
+      value,
+      unrealizedPnl: value - 100,
+      pnlIfWins: 100,
+      pnlIfLoses: -100,
+      historyComplete: true,
+    });
+    expect(pnl.NO.pnl).toBe(0);
+  });
+
+  it('settles resolved positions at the 1:1 payout', () => {
+    const resolved = market({ resolved: true, outcome: true });
+    const pnl = calculatePositionPnl(resolved, 200, 100, [trade(1, 100, 200, 1), trade(0, 40, 100, 2)]);
+    expect(pnl.YES).toMatchObject({ value: 200, unrealizedPnl: 100 });
+    expect(pnl.NO).toMatchObject({ value: 0, unrealizedPnl: -40 });
+  });
+
+  it('flags positions the loaded history cannot account for', () => {
+    const pnl = calculatePositionPnl(market(), 500, 0, [trade(1, 100, 200, 1)]);
+    expect(pnl.YES.historyComplete).toBe(false);
+  });
+
+  it('flags sells of shares bought before the loaded history', () => {
+    // Holding matches the replay, but the sell reached into older, unseen buys
+    const pnl = calculatePositionPnl(market(), 0, 0, [trade(1, 50, 100, 1), trade(11, 240, 400, 2)]);
+    expect(pnl.YES.historyComplete).toBe(false);
+  });
+});
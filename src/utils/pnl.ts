@@ -0,0 +1,99 @@
+// Cost basis and profit and loss for one market position, replayed from the player's trades
+import { MarketData, TradingPosition, UserTransactionEntry } from '../types/market';
+import { MarketCalculations } from './market-calculations';
+import { toTradeMarker } from './trade-markers';
+
+export interface PositionPnl extends TradingPosition {
+  // Tokens per share paid for the shares still held, fees included
+  averageEntryPrice: number;
+  costBasis: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  // Outcome of holding to resolution: winning shares pay 1 token each
+  pnlIfWins: number;
+  pnlIfLoses: number;
+  // False when the loaded history does not explain every share held, e.g. older
+  // trades fell outside the recent-transactions window
+  historyComplete: boolean;
+}
+
+interface CostLedger {
+  shares: number;
+  costBasis: number;
+  realizedPnl: number;
+  // False once a sell exceeded the shares the history shows were bought
+  complete: boolean;
+}
+
+// Average-cost ledger per side: buys add to cost, sells realize against the average entry price
+export function replayTrades(history: UserTransactionEntry[]): Record<'YES' | 'NO', CostLedger> {
+  const ledgers = {
+    YES: { shares: 0, costBasis: 0, realizedPnl: 0, complete: true },
+    NO: { shares: 0, costBasis: 0, realizedPnl: 0, complete: true },
+  };
+  const trades = history
+    .map(toTradeMarker)
+    .sort((a, b) => a.counter - b.counter || Number(a.index) - Number(b.index));
+
+  for (const trade of trades) {
+    const ledger = ledgers[trade.side];
+    if (trade.action === 'BUY') {
+      ledger.shares += trade.shares;
+      ledger.costBasis += trade.amount;
+      continue;
+    }
+    // Shares sold beyond what the history shows were bought carry no known cost, so only
+    // the matched part of the sell, and its share of the proceeds, is realized
+    const matched = Math.min(trade.shares, ledger.shares);
+    if (trade.shares > ledger.shares) {
+      ledger.complete = false;
+    }
+    const averageCost = ledger.shares > 0 ? ledger.costBasis / ledger.shares : 0;
+    const matchedProceeds = trade.shares > 0 ? (trade.amount * matched) / trade.shares : 0;
+    ledger.realizedPnl += matchedProceeds - averageCost * matched;
+    ledger.costBasis -= averageCost * matched;
+    ledger.shares -= matched;
+  }
+  return ledgers;
+}
+
+export function calculatePositionPnl(
+  market: MarketData,
+  yesShares: number,
+  noShares: number,
+  history: UserTransactionEntry[]
+): Record<'YES' | 'NO', PositionPnl> {
+  const ledgers = replayTrades(history);
+  const yesLiquidity = BigInt(market.yes_liquidity || 0);
+  const noLiquidity = BigInt(market.no_liquidity || 0);
+
+  const build = (type: 'YES' | 'NO', shares: number): PositionPnl => {
+    const ledger = ledgers[type];
+    const side = type === 'YES' ? 1 : 0;
+    const wins = market.outcome === (type === 'YES');
+    // Resolved markets are worth their 1:1 payout, open ones the AMM sell quote
+    const value = market.resolved
+      ? (wins ? shares : 0)
+      : shares > 0 ? MarketCalculations.calculateAmountForShares(side, shares, yesLiquidity, noLiquidity) : 0;
+    const averageEntryPrice = ledger.shares > 0 ? ledger.costBasis / ledger.shares : 0;
+    const costBasis = averageEntryPrice * shares;
+    const unrealizedPnl = value - costBasis;
+
+    return {
+      type,
+      shares,
+      value,
+      currentPrice: shares > 0 ? value / shares : 0,
+      pnl: ledger.realizedPnl + unrealizedPnl,
+      averageEntryPrice,
+      costBasis,
+      realizedPnl: ledger.realizedPnl,
+      unrealizedPnl,
+      pnlIfWins: ledger.realizedPnl + shares - costBasis,
+      pnlIfLoses: ledger.realizedPnl - costBasis,
+      historyComplete: ledger.complete && Math.round(ledger.shares) === shares,
+    };
+  };
+
+  return { YES: build('YES', yesShares), NO: build('NO', noShares) };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MarketError } from '../services/marketErrors';
+import { MarketResponse, PlayerMarketPosition } from '../services/schemas';
+import { MarketCalculations } from './market-calculations';
+import { claimAllWinnings, findClaimablePositions, summarizePortfolio, valuePosition } from './portfolio';
+
+const market = (overrides: Partial<MarketResponse> = {}): MarketResponse => ({
+  marketId: '1',
+  titleString: 'Will BTC close above 100k?',
+  yesLiquidity: '1000000',
+  noLiquidity: '3000000',
+  prizePool: '0',
+  totalVolume: '0',
+  totalFeesCollected: '0',
+  resolved: false,
+  outcome: null,
+  startTime: 0,
+  endTime: 1000,
+  resolutionTime: 2000,
+  ...overrides,
+});
+
+const position = (yesShares: number, noShares: number, claimed = false): PlayerMarketPosition => ({
+  yesShares: yesShares.toString(),
+  noShares: noShares.toString(),
+  claimed,
+});
+
+describe('valuePosition', () => {
+  it('marks open positions to the AMM sell quote', () => {
+    const valuation = valuePosition({ market: market(), position: position(5000, 2000) });
+    expect(valuation.yesValue).toBe(MarketCalculations.calculateAmountForShares(1, 5000, 1000000n, 3000000n));
+    expect(valuation.noValue).toBe(MarketCalculations.calculateAmountForShares(0, 2000, 1000000n, 3000000n));
+    expect(valuation.totalValue).toBe(valuation.yesValue + valuation.noValue);
+    expect(valuation.unclaimedWinnings).toBe(0);
+  });
+
+  it('values resolved markets at the unclaimed winning shares', () => {
+    const yesWins = valuePosition({ market: market({ resolved: true, outcome: true }), position: position(5000, 2000) });
+    expect(yesWins).toMatchObject({ yesValue: 5000, noValue: 0, unclaimedWinnings: 5000, totalValue: 5000 });
+
+    const noWins = valuePosition({ market: market({ resolved: true, outcome: false }), position: position(5000, 2000) });
+    expect(noWins).toMatchObject({ yesValue: 0, noValue: 2000, unclaimedWinnings: 2000, totalValue: 2000 });
+  });
+
+  it('counts nothing once winnings are claimed', () => {
+    const valuation = valuePosition({ market: market({ resolved: true, outcome: true }), position: position(5000, 0, true) });
+    expect(valuation.totalValue).toBe(0);
+    expect(valuation.unclaimedWinnings).toBe(0);
+  });
+});
+
+describe('summarizePortfolio', () => {
+  it('adds the L2 balance to every held position and skips empty ones', () => {
+    const summary = summarizePortfolio('10000', [
+      { market: market({ marketId: '3', resolved: true, outcome: false }), position: position(0, 4000) },
+      { market: market({ marketId: '2' }), position: position(0, 0) },
+      { market: market({ marketId: '1' }), position: position(1000, 0) },
+    ]);
+    expect(summary.positions.map((p) => p.marketId)).toEqual(['1', '3']);
+    expect(summary.unclaimedWinnings).toBe(4000);
+    expect(summary.positionsValue).toBe(summary.positions[0].totalValue + 4000);
+    expect(summary.netWorth).toBe(10000 + summary.positionsValue);
+  });
+
+  it('is just the balance with no positions', () => {
+    expect(summarizePortfolio(250, [])).toMatchObject({ balance: 250, positionsValue: 0, netWorth: 250 });
+  });
+});
+
+describe('claimAllWinnings', () => {
+  const positions = [
+    valuePosition({ market: market({ marketId: '1', resolved: true, outcome: true }), position: position(3000, 0) }),
+    valuePosition({ market: market({ marketId: '2', resolved: true, outcome: true }), position: position(0, 5000) }),
+    valuePosition({ market: market({ marketId: '3', resolved: true, outcome: false }), position: position(0, 4000, true) }),
+    valuePosition({ market: market({ marketId: '4' }), position: position(1000, 0) }),
+    valuePosition({ market: market({ marketId: '5', resolved: true, outcome: false }), position: position(0, 2000) }),
+  ];
+
+  it('only picks resolved, unclaimed markets with winning shares', () => {
+    expect(findClaimablePositions(positions).map((p) => p.marketId)).toEqual(['1', '5']);
+  });
+
+  it('claims sequentially and reports each market', async () => {
+    const order: string[] = [];
+    const claim = vi.fn(async ({ marketId }: { marketId: string }) => {
+      order.push(`start:${marketId}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      order.push(`end:${marketId}`);
+      if (marketId === '1') {
+        throw new Error('AlreadyClaimed');
+      }
+    });
+    const results = await claimAllWinnings(positions, claim);
+    expect(order).toEqual(['start:1', 'end:1', 'start:5', 'end:5']);
+    expect(results).toEqual([
+      expect.objectContaining({ marketId: '1', amount: 3000, success: false, error: MarketError.ALREADY_CLAIMED }),
+      { marketId: '5', title: 'Will BTC close above 100k?', amount: 2000, success: true },
+    ]);
+  });
+});
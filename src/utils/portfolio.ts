@@ -0,0 +1,127 @@
+// Cross-market valuation of a player's holdings
+import { describeMarketError, MarketError } from '../services/marketErrors';
+import { MarketResponse, PlayerMarketPosition } from '../services/schemas';
+import { MarketCalculations } from './market-calculations';
+
+export interface MarketHolding {
+  market: MarketResponse;
+  position: PlayerMarketPosition;
+}
+
+export interface PositionValuation {
+  marketId: string;
+  title: string;
+  resolved: boolean;
+  outcome: boolean | null;
+  claimed: boolean;
+  yesShares: number;
+  noShares: number;
+  // Mark-to-market value of each side; after resolution only unclaimed winning shares count
+  yesValue: number;
+  noValue: number;
+  unclaimedWinnings: number;
+  totalValue: number;
+}
+
+export interface PortfolioSummary {
+  balance: number;
+  positions: PositionValuation[];
+  positionsValue: number;
+  unclaimedWinnings: number;
+  netWorth: number;
+}
+
+export function hasOpenPosition(position: PlayerMarketPosition): boolean {
+  return BigInt(position.yesShares) > 0n || BigInt(position.noShares) > 0n;
+}
+
+// Open markets are valued at the AMM sell quote, resolved markets at their 1:1 claim payout
+export function valuePosition({ market, position }: MarketHolding): PositionValuation {
+  const yesShares = Number(position.yesShares);
+  const noShares = Number(position.noShares);
+  const base = {
+    marketId: market.marketId,
+    title: market.titleString,
+    resolved: market.resolved,
+    outcome: market.outcome ?? null,
+    claimed: position.claimed,
+    yesShares,
+    noShares,
+  };
+
+  if (market.resolved) {
+    const winningShares = market.outcome ? yesShares : noShares;
+    const unclaimedWinnings = position.claimed ? 0 : winningShares;
+    return {
+      ...base,
+      yesValue: market.outcome ? unclaimedWinnings : 0,
+      noValue: market.outcome ? 0 : unclaimedWinnings,
+      unclaimedWinnings,
+      totalValue: unclaimedWinnings,
+    };
+  }
+
+  const yesLiquidity = BigInt(market.yesLiquidity);
+  const noLiquidity = BigInt(market.noLiquidity);
+  const yesValue = yesShares > 0 ? MarketCalculations.calculateAmountForShares(1, yesShares, yesLiquidity, noLiquidity) : 0;
+  const noValue = noShares > 0 ? MarketCalculations.calculateAmountForShares(0, noShares, yesLiquidity, noLiquidity) : 0;
+  return {
+    ...base,
+    yesValue,
+    noValue,
+    unclaimedWinnings: 0,
+    totalValue: yesValue + noValue,
+  };
+}
+
+// Positions with no shares left are dropped; net worth adds the L2 balance
+export function summarizePortfolio(balance: string | number, holdings: MarketHolding[]): PortfolioSummary {
+  const positions = holdings
+    .filter((holding) => hasOpenPosition(holding.position))
+    .map(valuePosition)
+    .sort((a, b) => Number(BigInt(a.marketId) - BigInt(b.marketId)));
+  const positionsValue = positions.reduce((sum, position) => sum + position.totalValue, 0);
+  const unclaimedWinnings = positions.reduce((sum, position) => sum + position.unclaimedWinnings, 0);
+  const balanceValue = Number(balance);
+  return {
+    balance: balanceValue,
+    positions,
+    positionsValue,
+    unclaimedWinnings,
+    netWorth: balanceValue + positionsValue,
+  };
+}
+
+export interface ClaimResult {
+  marketId: string;
+  title: string;
+  amount: number;
+  success: boolean;
+  error?: MarketError;
+  message?: string;
+}
+
+// Resolved markets where the player still holds unclaimed winning shares
+export function findClaimablePositions(positions: PositionValuation[]): PositionValuation[] {
+  return positions.filter((position) => position.resolved && !position.claimed && position.unclaimedWinnings > 0);
+}
+
+// Claim one market at a time so every CLAIM is signed with the next nonce,
+// and keep going after a failure so one bad market does not block the rest
+export async function claimAllWinnings(
+  positions: PositionValuation[],
+  claim: (position: PositionValuation) => Promise<unknown>
+): Promise<ClaimResult[]> {
+  const results: ClaimResult[] = [];
+  for (const position of findClaimablePositions(positions)) {
+    const result = { marketId: position.marketId, title: position.title, amount: position.unclaimedWinnings };
+    try {
+      await claim(position);
+      results.push({ ...result, success: true });
+    } catch (error) {
+      const info = describeMarketError(error);
+      results.push({ ...result, success: false, error: info.code, message: info.message });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  counterToTime,
+  createClockFromConfig,
+  createObservedClock,
+  deserializeClock,
+  reconcileClock,
+  secondsUntilCounter,
+  serializeClock,
+  timeToCounter,
+} from './rollup-clock';
+
+const genesis = 1_700_000_000;
+const configClock = createClockFromConfig({ genesis_timestamp: genesis, counter_interval: 5 })!;
+
+describe('createClockFromConfig', () => {
+  it('anchors counter 0 on the genesis timestamp', () => {
+    expect(configClock).toEqual({ anchorCounter: 0, anchorTime: genesis * 1000, intervalMs: 5000, source: 'config' });
+  });
+
+  it('defaults the interval and needs a genesis', () => {
+    expect(createClockFromConfig({ genesis_timestamp: genesis })?.intervalMs).toBe(5000);
+    expect(createClockFromConfig({})).toBeNull();
+    expect(createClockFromConfig(null)).toBeNull();
+  });
+});
+
+describe('counter conversions', () => {
+  it('maps counters to the time they were produced and back', () => {
+    expect(counterToTime(configClock, 120)).toBe((genesis + 600) * 1000);
+    expect(timeToCounter(configClock, (genesis + 600) * 1000)).toBe(120);
+    expect(timeToCounter(configClock, (genesis + 604) * 1000)).toBe(120);
+    expect(timeToCounter(configClock, (genesis + 605) * 1000)).toBe(121);
+  });
+
+  it('gives the same time for a counter regardless of when it is asked', () => {
+    const clock = createObservedClock(500, 1_000_000);
+    const later = reconcileClock(clock, 560, 1_000_000 + 60 * 5000);
+    expect(counterToTime(later, 400)).toBe(counterToTime(clock, 400));
+  });
+
+  it('counts seconds until a future counter', () => {
+    const now = (genesis + 601) * 1000;
+    expect(secondsUntilCounter(configClock, 130, now)).toBe(49);
+    expect(secondsUntilCounter(configClock, 100, now)).toBe(0);
+  });
+});
+
+describe('reconcileClock', () => {
+  it('keeps a clock that agrees with the server within tolerance', () => {
+    expect(reconcileClock(configClock, 122, (genesis + 600) * 1000)).toBe(configClock);
+  });
+
+  it('keeps the config anchor even when the sequencer drifts', () => {
+    expect(reconcileClock(configClock, 100, (genesis + 600) * 1000)).toBe(configClock);
+    expect(reconcileClock(configClock, 200, (genesis + 600) * 1000)).toBe(configClock);
+  });
+
+  it('re-anchors an observed clock once the sequencer drifts', () => {
+    const clock = createObservedClock(0, genesis * 1000);
+    const observedAt = (genesis + 600) * 1000;
+    expect(reconcileClock(clock, 122, observedAt)).toBe(clock);
+    expect(reconcileClock(clock, 100, observedAt)).toEqual({
+      anchorCounter: 100,
+      anchorTime: observedAt,
+      intervalMs: 5000,
+      source: 'observed',
+    });
+  });
+
+  it('starts from the first observation without a clock', () => {
+    expect(reconcileClock(null, 42, 1234)).toEqual(createObservedClock(42, 1234));
+  });
+});
+
+describe('clock persistence', () => {
+  it('round-trips and rejects malformed data', () => {
+    expect(deserializeClock(serializeClock(configClock))).toEqual(configClock);
+    expect(deserializeClock('{"anchorCounter":1}')).toBeNull();
+    expect(deserializeClock('not json')).toBeNull();
+    expect(deserializeClock(null)).toBeNull();
+  });
+});
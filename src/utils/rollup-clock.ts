@@ -0,0 +1,90 @@
+// Maps rollup counters to wall-clock time
+import { z } from 'zod';
+import { ServerConfigResponse } from '../services/schemas';
+
+// The sequencer ticks the counter every 5 seconds unless the server config says otherwise
+export const DEFAULT_COUNTER_INTERVAL_MS = 5000;
+
+// An observed counter this many ticks away from the model's prediction re-anchors an observed clock
+export const CLOCK_DRIFT_TOLERANCE_COUNTERS = 2;
+
+export interface RollupClock {
+  // Wall-clock time (ms) at which `anchorCounter` was produced
+  anchorCounter: number;
+  anchorTime: number;
+  intervalMs: number;
+  // 'config' when anchored on the rollup genesis, 'observed' when anchored on a counter read
+  source: 'config' | 'observed';
+}
+
+const rollupClockSchema = z.object({
+  anchorCounter: z.number(),
+  anchorTime: z.number(),
+  intervalMs: z.number().positive(),
+  source: z.enum(['config', 'observed']),
+});
+
+// Server config carries genesis in unix seconds and the tick interval in seconds
+export function createClockFromConfig(config: ServerConfigResponse | null): RollupClock | null {
+  if (!config || config.genesis_timestamp === undefined) {
+    return null;
+  }
+  return {
+    anchorCounter: 0,
+    anchorTime: config.genesis_timestamp * 1000,
+    intervalMs: config.counter_interval ? config.counter_interval * 1000 : DEFAULT_COUNTER_INTERVAL_MS,
+    source: 'config',
+  };
+}
+
+export function createObservedClock(
+  counter: number,
+  observedAt: number,
+  intervalMs: number = DEFAULT_COUNTER_INTERVAL_MS
+): RollupClock {
+  return { anchorCounter: counter, anchorTime: observedAt, intervalMs, source: 'observed' };
+}
+
+export function counterToTime(clock: RollupClock, counter: number): number {
+  return clock.anchorTime + (counter - clock.anchorCounter) * clock.intervalMs;
+}
+
+// Latest counter the rollup should have produced by `time`
+export function timeToCounter(clock: RollupClock, time: number): number {
+  return clock.anchorCounter + Math.floor((time - clock.anchorTime) / clock.intervalMs);
+}
+
+// Whole seconds from `now` until `counter` is produced, never negative
+export function secondsUntilCounter(clock: RollupClock, counter: number, now: number): number {
+  return Math.max(0, Math.ceil((counterToTime(clock, counter) - now) / 1000));
+}
+
+// The genesis anchor from the server config is authoritative and never moved. A clock
+// built from observations is re-anchored once the sequencer has paused or skipped ahead
+// so displayed times follow the real counter
+export function reconcileClock(clock: RollupClock | null, counter: number, observedAt: number): RollupClock {
+  if (!clock) {
+    return createObservedClock(counter, observedAt);
+  }
+  if (clock.source === 'config') {
+    return clock;
+  }
+  const drift = Math.abs(timeToCounter(clock, observedAt) - counter);
+  return drift > CLOCK_DRIFT_TOLERANCE_COUNTERS ? createObservedClock(counter, observedAt, clock.intervalMs) : clock;
+}
+
+export function serializeClock(clock: RollupClock): string {
+  return JSON.stringify(clock);
+}
+
+export function deserializeClock(raw: string | null): RollupClock | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const result = rollupClockSchema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assertWithinSlippage,
+  calculateMinimumOutput,
+  createTradeProtection,
+  DEFAULT_SLIPPAGE_TOLERANCE,
+  MAX_SLIPPAGE_TOLERANCE,
+  normalizeSlippageTolerance,
+  quoteBuy,
+  quoteSell,
+  SlippageExceededError,
+} from './slippage';
+
+describe('normalizeSlippageTolerance', () => {
+  it('keeps valid tolerances', () => {
+    expect(normalizeSlippageTolerance(0)).toBe(0);
+    expect(normalizeSlippageTolerance(0.03)).toBe(0.03);
+  });
+
+  it('caps tolerances above the maximum', () => {
+    expect(normalizeSlippageTolerance(0.9)).toBe(MAX_SLIPPAGE_TOLERANCE);
+  });
+
+  it('falls back to the default for invalid input', () => {
+    expect(normalizeSlippageTolerance(-0.01)).toBe(DEFAULT_SLIPPAGE_TOLERANCE);
+    expect(normalizeSlippageTolerance(NaN)).toBe(DEFAULT_SLIPPAGE_TOLERANCE);
+  });
+});
+
+describe('calculateMinimumOutput', () => {
+  it('rounds the tolerated output down', () => {
+    expect(calculateMinimumOutput(9901, 0.01)).toBe(9801);
+    expect(calculateMinimumOutput(9901, 0)).toBe(9901);
+  });
+
+  it('returns zero for empty quotes', () => {
+    expect(calculateMinimumOutput(0, 0.01)).toBe(0);
+  });
+});
+
+describe('quotes', () => {
+  it('deducts the platform fee before buying', () => {
+    // 10100 tokens pays a 101 fee, leaving 9999 for shares
+    expect(quoteBuy(1, 10100, 1000000n, 1000000n)).toBe(9901);
+    expect(quoteBuy(1, 1, 1000000n, 1000000n)).toBe(0);
+  });
+
+  it('deducts the platform fee from sale proceeds', () => {
+    // 9901 YES shares gross 9804 tokens, minus a 99 fee
+    expect(quoteSell(1, 9901, 1000000n, 1000000n)).toBe(9705);
+    expect(quoteSell(1, 0, 1000000n, 1000000n)).toBe(0);
+  });
+});
+
+describe('assertWithinSlippage', () => {
+  it('accepts a quote that still meets the minimum', () => {
+    const protection = createTradeProtection(9901, 0.01);
+    expect(assertWithinSlippage('BUY', 1, 10100, 1000000n, 1000000n, protection)).toBe(9901);
+  });
+
+  it('rejects a buy after the price moved against the trader', () => {
+    const protection = createTradeProtection(9901, 0.01);
+    // Another YES buyer moved the pool before submission
+    expect(() => assertWithinSlippage('BUY', 1, 10100, 950000n, 1052632n, protection))
+      .toThrow(SlippageExceededError);
+  });
+
+  it('reports the quote and minimum on rejection', () => {
+    const protection = createTradeProtection(9705, 0.005);
+    try {
+      assertWithinSlippage('SELL', 1, 9901, 1100000n, 900000n, protection);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SlippageExceededError);
+      const slippageError = error as SlippageExceededError;
+      expect(slippageError.type).toBe('SELL');
+      expect(slippageError.minimum).toBe(9656);
+      expect(slippageError.quoted).toBeLessThan(9656);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { MarketCalculations } from './market-calculations';
+
+// Slippage tolerance presets offered in the trading panel (fractions, 0.01 = 1%)
+export const SLIPPAGE_PRESETS = [0.005, 0.01, 0.02];
+export const DEFAULT_SLIPPAGE_TOLERANCE = 0.01;
+export const MAX_SLIPPAGE_TOLERANCE = 0.5;
+
+// Trade output the user is willing to accept, captured when the trade was previewed
+export interface TradeProtection {
+  expected: number;
+  minimum: number;
+  tolerance: number;
+}
+
+// Thrown when a fresh quote falls below the minimum accepted by the user
+export class SlippageExceededError extends Error {
+  readonly type: 'BUY' | 'SELL';
+  readonly quoted: number;
+  readonly minimum: number;
+
+  constructor(type: 'BUY' | 'SELL', quoted: number, minimum: number) {
+    const unit = type === 'BUY' ? 'shares' : 'tokens';
+    super(`Price moved: trade would return ${quoted} ${unit}, below your minimum of ${minimum} ${unit}`);
+    this.name = 'SlippageExceededError';
+    this.type = type;
+    this.quoted = quoted;
+    this.minimum = minimum;
+  }
+}
+
+// Clamp a tolerance into the supported range, falling back to the default for bad input
+export function normalizeSlippageTolerance(tolerance: number): number {
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    return DEFAULT_SLIPPAGE_TOLERANCE;
+  }
+  return Math.min(tolerance, MAX_SLIPPAGE_TOLERANCE);
+}
+
+// Smallest output still accepted for an expected output, rounded down to whole units
+export function calculateMinimumOutput(expected: number, tolerance: number): number {
+  if (expected <= 0) {
+    return 0;
+  }
+  return Math.floor(expected * (1 - normalizeSlippageTolerance(tolerance)));
+}
+
+export function createTradeProtection(expected: number, tolerance: number): TradeProtection {
+  return {
+    expected,
+    minimum: calculateMinimumOutput(expected, tolerance),
+    tolerance: normalizeSlippageTolerance(tolerance),
+  };
+}
+
+// Shares received for spending `amount` tokens, after the platform fee
+export function quoteBuy(betType: 0 | 1, amount: number, yesLiquidity: bigint, noLiquidity: bigint): number {
+  const amountAfterFees = amount - MarketCalculations.calculateFees(amount);
+  if (amountAfterFees <= 0) {
+    return 0;
+  }
+  return MarketCalculations.calculateSharesForBet(betType, amountAfterFees, yesLiquidity, noLiquidity);
+}
+
+// Tokens received for selling `shares`, after the platform fee
+export function quoteSell(sellType: 0 | 1, shares: number, yesLiquidity: bigint, noLiquidity: bigint): number {
+  if (shares <= 0) {
+    return 0;
+  }
+  const grossAmount = MarketCalculations.calculateAmountForShares(sellType, shares, yesLiquidity, noLiquidity);
+  return grossAmount - MarketCalculations.calculateFees(grossAmount);
+}
+
+// Re-quote a trade against current liquidity and reject it if the output fell below the minimum
+export function assertWithinSlippage(
+  type: 'BUY' | 'SELL',
+  betType: 0 | 1,
+  amount: number,
+  yesLiquidity: bigint,
+  noLiquidity: bigint,
+  protection: TradeProtection
+): number {
+  const quoted = type === 'BUY'
+    ? quoteBuy(betType, amount, yesLiquidity, noLiquidity)
+    : quoteSell(betType, amount, yesLiquidity, noLiquidity);
+  if (quoted < protection.minimum) {
+    throw new SlippageExceededError(type, quoted, protection.minimum);
+  }
+  return quoted;
+}
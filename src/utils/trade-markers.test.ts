@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { UserTransactionEntry } from '../types/market';
+import { groupMarkersByCounter, toTradeMarker, TradeMarker } from './trade-markers';
+
+const entry = (betType: number, amount: string, shares: string, counter: string): UserTransactionEntry => ({
+  index: counter,
+  pid: ['1', '2'],
+  betType,
+  amount,
+  shares,
+  counter,
+  __v: 0,
+});
+
+describe('toTradeMarker', () => {
+  it('classifies buys and sells by bet type', () => {
+    expect(toTradeMarker(entry(1, '100', '180', '5'))).toMatchObject({ action: 'BUY', side: 'YES' });
+    expect(toTradeMarker(entry(0, '100', '180', '5'))).toMatchObject({ action: 'BUY', side: 'NO' });
+    expect(toTradeMarker(entry(11, '90', '180', '5'))).toMatchObject({ action: 'SELL', side: 'YES' });
+    expect(toTradeMarker(entry(12, '90', '180', '5'))).toMatchObject({ action: 'SELL', side: 'NO' });
+  });
+
+  it('prices the trade per share', () => {
+    expect(toTradeMarker(entry(1, '100', '200', '7'))).toMatchObject({ counter: 7, effectivePrice: 0.5 });
+    expect(toTradeMarker(entry(1, '100', '0', '7')).effectivePrice).toBe(0);
+  });
+});
+
+describe('groupMarkersByCounter', () => {
+  const marker = (counter: number): TradeMarker => toTradeMarker(entry(1, '10', '20', String(counter)));
+
+  it('snaps trades to the latest chart point not after them', () => {
+    const grouped = groupMarkersByCounter([marker(10), marker(14), marker(25), marker(3)], [5, 10, 20]);
+    expect(grouped.get(5)?.map((m) => m.counter)).toEqual([3]);
+    expect(grouped.get(10)?.map((m) => m.counter)).toEqual([10, 14]);
+    expect(grouped.get(20)?.map((m) => m.counter)).toEqual([25]);
+  });
+
+  it('places nothing without chart points', () => {
+    expect(groupMarkersByCounter([marker(1)], []).size).toBe(0);
+  });
+});
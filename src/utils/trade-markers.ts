@@ -0,0 +1,55 @@
+// The player's own trades, placed on the price chart as entry and exit markers
+import { UserTransactionEntry } from '../types/market';
+
+export interface TradeMarker {
+  index: string;
+  counter: number;
+  action: 'BUY' | 'SELL';
+  side: 'YES' | 'NO';
+  amount: number;
+  shares: number;
+  // Tokens paid or received per share, fees included
+  effectivePrice: number;
+}
+
+// Bet types 0/1 are buys of NO/YES; 11/12 are sells of YES/NO
+export function toTradeMarker(entry: UserTransactionEntry): TradeMarker {
+  const isSell = entry.betType === 11 || entry.betType === 12;
+  const side = entry.betType === 1 || entry.betType === 11 ? 'YES' : 'NO';
+  const amount = Number(entry.amount);
+  const shares = Number(entry.shares);
+  return {
+    index: entry.index,
+    counter: Number(entry.counter),
+    action: isSell ? 'SELL' : 'BUY',
+    side,
+    amount,
+    shares,
+    effectivePrice: shares > 0 ? amount / shares : 0,
+  };
+}
+
+// Attach each marker to the last chart counter at or before its trade, so it sits on
+// the snapshot it traded against; trades before the first point go on the first point.
+// `counters` must be sorted ascending.
+export function groupMarkersByCounter(markers: TradeMarker[], counters: number[]): Map<number, TradeMarker[]> {
+  const grouped = new Map<number, TradeMarker[]>();
+  if (counters.length === 0) {
+    return grouped;
+  }
+  for (const marker of markers) {
+    let low = 0;
+    let high = counters.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (counters[mid] <= marker.counter) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const counter = counters[low];
+    grouped.set(counter, [...(grouped.get(counter) ?? []), marker]);
+  }
+  return grouped;
+}
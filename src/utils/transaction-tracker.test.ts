@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { PositionSnapshot } from '../types/market';
+import {
+  CONFIRMATION_TIMEOUT_MS,
+  createPendingTransaction,
+  deserializeTransactions,
+  isConfirmedBy,
+  pendingMarketIds,
+  reconcileAllTransactions,
+  reconcileTransactions,
+  serializeTransactions,
+  settleTransaction,
+} from './transaction-tracker';
+
+const baseline: PositionSnapshot = {
+  nonce: 4,
+  balance: '1000000',
+  yesShares: '0',
+  noShares: '500',
+  claimed: false,
+};
+
+const submittedAt = new Date('2026-01-01T00:00:00Z');
+
+describe('isConfirmedBy', () => {
+  const buy = createPendingTransaction({ type: 'BUY', amount: 10000, marketId: '1', betType: 1, baseline }, submittedAt);
+
+  it('waits for the nonce to advance', () => {
+    expect(isConfirmedBy(buy, { ...baseline, yesShares: '9901' })).toBe(false);
+  });
+
+  it('waits for the position to change', () => {
+    expect(isConfirmedBy(buy, { ...baseline, nonce: 5 })).toBe(false);
+  });
+
+  it('confirms a buy once shares on the traded side increase', () => {
+    expect(isConfirmedBy(buy, { ...baseline, nonce: 5, yesShares: '9901' })).toBe(true);
+    expect(isConfirmedBy(buy, { ...baseline, nonce: 5, noShares: '900' })).toBe(false);
+  });
+
+  it('confirms sells, claims and withdrawals by their effect', () => {
+    const sell = createPendingTransaction({ type: 'SELL', amount: 200, marketId: '1', betType: 0, baseline });
+    const claim = createPendingTransaction({ type: 'CLAIM', amount: 0, marketId: '1', baseline });
+    const withdraw = createPendingTransaction({ type: 'WITHDRAW', amount: 5000, baseline });
+    expect(isConfirmedBy(sell, { ...baseline, nonce: 5, noShares: '300' })).toBe(true);
+    expect(isConfirmedBy(claim, { ...baseline, nonce: 5, claimed: true })).toBe(true);
+    expect(isConfirmedBy(withdraw, { ...baseline, nonce: 5, balance: '995000' })).toBe(true);
+  });
+
+  it('confirms withdrawals and deposits only by their exact amount', () => {
+    const withdraw = createPendingTransaction({ type: 'WITHDRAW', amount: 5000, baseline });
+    const deposit = createPendingTransaction({ type: 'DEPOSIT', amount: 5000, baseline });
+    expect(isConfirmedBy(withdraw, { ...baseline, nonce: 5, balance: '990000' })).toBe(false);
+    expect(isConfirmedBy(deposit, { ...baseline, nonce: 5, balance: '1005000' })).toBe(true);
+    expect(isConfirmedBy(deposit, { ...baseline, nonce: 5, balance: '1000001' })).toBe(false);
+  });
+
+  it('never confirms without a baseline', () => {
+    const untracked = createPendingTransaction({ type: 'BUY', amount: 10000, marketId: '1', betType: 1 });
+    expect(isConfirmedBy(untracked, { ...baseline, nonce: 9, yesShares: '9901' })).toBe(false);
+  });
+});
+
+describe('settleTransaction', () => {
+  const buy = createPendingTransaction({ type: 'BUY', amount: 10000, marketId: '1', betType: 1, baseline }, submittedAt);
+
+  it('records the filled shares and effective price', () => {
+    const settled = settleTransaction(buy, { ...baseline, nonce: 5, yesShares: '8000' }, new Date(submittedAt.getTime() + 1000));
+    expect(settled.status).toBe('COMPLETED');
+    expect(settled.shares).toBe(8000);
+    expect(settled.price).toBe(1.25);
+  });
+
+  it('stays pending until the confirmation timeout', () => {
+    const justBefore = new Date(submittedAt.getTime() + CONFIRMATION_TIMEOUT_MS);
+    expect(settleTransaction(buy, baseline, justBefore)).toBe(buy);
+  });
+
+  it('fails once the timeout passes without the expected effect', () => {
+    const after = new Date(submittedAt.getTime() + CONFIRMATION_TIMEOUT_MS + 1);
+    const settled = settleTransaction(buy, { ...baseline, nonce: 5 }, after);
+    expect(settled.status).toBe('FAILED');
+    expect(settled.error).toBeDefined();
+  });
+
+  it('settles a withdrawal as unconfirmed when later commands moved the balance too', () => {
+    const withdraw = createPendingTransaction({ type: 'WITHDRAW', amount: 5000, baseline }, submittedAt);
+    const after = new Date(submittedAt.getTime() + CONFIRMATION_TIMEOUT_MS + 1);
+    expect(settleTransaction(withdraw, { ...baseline, nonce: 5, balance: '990000' }, after).status).toBe('FAILED');
+    expect(settleTransaction(withdraw, { ...baseline, nonce: 7, balance: '990000' }, after).status).toBe('UNCONFIRMED');
+  });
+
+  it('settles as unconfirmed rather than failed without a baseline', () => {
+    const untracked = createPendingTransaction({ type: 'BUY', amount: 10000, marketId: '1', betType: 1 }, submittedAt);
+    const after = new Date(submittedAt.getTime() + CONFIRMATION_TIMEOUT_MS + 1);
+    expect(settleTransaction(untracked, { ...baseline, nonce: 9 }, after).status).toBe('UNCONFIRMED');
+  });
+});
+
+describe('reconcileTransactions', () => {
+  it('only settles transactions the snapshot covers', () => {
+    const inMarket = createPendingTransaction({ type: 'BUY', amount: 100, marketId: '1', betType: 1, baseline });
+    const otherMarket = createPendingTransaction({ type: 'BUY', amount: 100, marketId: '2', betType: 1, baseline });
+    const withdraw = createPendingTransaction({ type: 'WITHDRAW', amount: 100, baseline });
+    const [a, b, c] = reconcileTransactions(
+      [inMarket, otherMarket, withdraw],
+      '1',
+      { ...baseline, nonce: 5, yesShares: '99', balance: '999900' }
+    );
+    expect(a.status).toBe('COMPLETED');
+    expect(b).toBe(otherMarket);
+    expect(c.status).toBe('COMPLETED');
+  });
+
+  it('returns the same array when nothing changed', () => {
+    const list = [createPendingTransaction({ type: 'CLAIM', amount: 0, marketId: '1', baseline })];
+    expect(reconcileTransactions(list, '1', baseline)).toBe(list);
+  });
+});
+
+describe('reconcileAllTransactions', () => {
+  it('settles each market against its own snapshot and withdrawals against the account', () => {
+    const first = createPendingTransaction({ type: 'BUY', amount: 100, marketId: '1', betType: 1, baseline });
+    const second = createPendingTransaction({ type: 'SELL', amount: 100, marketId: '2', betType: 0, baseline });
+    const unpolled = createPendingTransaction({ type: 'CLAIM', amount: 0, marketId: '3', baseline });
+    const withdraw = createPendingTransaction({ type: 'WITHDRAW', amount: 100, baseline });
+    const snapshots: Record<string, PositionSnapshot> = {
+      '1': { ...baseline, nonce: 5, yesShares: '99', balance: '999900' },
+      '2': { ...baseline, nonce: 5, noShares: '400', balance: '999900' },
+    };
+    const account = { ...baseline, nonce: 5, balance: '999900' };
+    const [a, b, c, d] = reconcileAllTransactions(
+      [first, second, unpolled, withdraw],
+      (marketId) => (marketId === undefined ? account : snapshots[marketId])
+    );
+    expect(a.status).toBe('COMPLETED');
+    expect(b.status).toBe('COMPLETED');
+    expect(c).toBe(unpolled);
+    expect(d.status).toBe('COMPLETED');
+  });
+
+  it('lists each market with pending transactions once', () => {
+    const pending = [
+      createPendingTransaction({ type: 'BUY', amount: 100, marketId: '1', betType: 1, baseline }),
+      createPendingTransaction({ type: 'SELL', amount: 100, marketId: '1', betType: 1, baseline }),
+      createPendingTransaction({ type: 'WITHDRAW', amount: 100, baseline }),
+      { ...createPendingTransaction({ type: 'CLAIM', amount: 0, marketId: '2', baseline }), status: 'COMPLETED' as const },
+    ];
+    expect(pendingMarketIds(pending)).toEqual(['1']);
+  });
+});
+
+describe('persistence', () => {
+  it('round-trips transactions including dates', () => {
+    const original = [
+      createPendingTransaction({ type: 'SELL', amount: 200, marketId: '3', betType: 0, baseline }, submittedAt),
+    ];
+    const restored = deserializeTransactions(serializeTransactions(original));
+    expect(restored).toEqual(original);
+    expect(restored[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('drops malformed entries and unreadable storage', () => {
+    expect(deserializeTransactions(null)).toEqual([]);
+    expect(deserializeTransactions('not json')).toEqual([]);
+    expect(deserializeTransactions('{"id":"x"}')).toEqual([]);
+    expect(deserializeTransactions('[{"id":"x"}]')).toEqual([]);
+  });
+});
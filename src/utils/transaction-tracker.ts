@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { PositionSnapshot, Transaction } from '../types/market';
+
+// Keep the most recent submissions only
+export const MAX_TRACKED_TRANSACTIONS = 50;
+
+// A submission whose effect is still missing from player state after this long is marked failed,
+// or unconfirmed when there was no baseline to compare against
+export const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+export type NewTransaction = Pick<Transaction, 'type' | 'amount' | 'marketId' | 'betType' | 'baseline'>;
+
+export function createTransactionId(now = Date.now()): string {
+  return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createPendingTransaction(input: NewTransaction, now = new Date()): Transaction {
+  return {
+    ...input,
+    id: createTransactionId(now.getTime()),
+    price: 0,
+    timestamp: now,
+    status: 'PENDING',
+  };
+}
+
+// Shares gained (BUY) or given up (SELL) on the traded side since the baseline
+function sideShareDelta(transaction: Transaction, snapshot: PositionSnapshot): bigint {
+  const baseline = transaction.baseline!;
+  return transaction.betType === 1
+    ? BigInt(snapshot.yesShares) - BigInt(baseline.yesShares)
+    : BigInt(snapshot.noShares) - BigInt(baseline.noShares);
+}
+
+// Balance change a withdrawal (negative) or deposit (positive) of the tracked amount makes
+function expectedBalanceDelta(transaction: Transaction): bigint {
+  const amount = BigInt(Math.floor(transaction.amount));
+  return transaction.type === 'WITHDRAW' ? -amount : amount;
+}
+
+// Whether commands after this one have also landed, so balance changes can no longer be
+// attributed to it alone
+function hasLaterActivity(transaction: Transaction, snapshot: PositionSnapshot): boolean {
+  return transaction.baseline !== undefined && snapshot.nonce > transaction.baseline.nonce + 1;
+}
+
+// A submission is confirmed once the player's nonce has advanced past the baseline
+// and the position moved the way the command should have moved it
+export function isConfirmedBy(transaction: Transaction, snapshot: PositionSnapshot): boolean {
+  const baseline = transaction.baseline;
+  if (!baseline || snapshot.nonce <= baseline.nonce) {
+    return false;
+  }
+
+  switch (transaction.type) {
+    case 'BUY':
+      return sideShareDelta(transaction, snapshot) > 0n;
+    case 'SELL':
+      return sideShareDelta(transaction, snapshot) < 0n;
+    case 'CLAIM':
+      return snapshot.claimed && !baseline.claimed;
+    case 'WITHDRAW':
+    case 'DEPOSIT':
+      return BigInt(snapshot.balance) - BigInt(baseline.balance) === expectedBalanceDelta(transaction);
+  }
+}
+
+// Settle a pending transaction against the latest player state
+export function settleTransaction(transaction: Transaction, snapshot: PositionSnapshot, now = new Date()): Transaction {
+  if (transaction.status !== 'PENDING') {
+    return transaction;
+  }
+
+  if (isConfirmedBy(transaction, snapshot)) {
+    const settled: Transaction = { ...transaction, status: 'COMPLETED', settledAt: now };
+    if (transaction.type === 'BUY' || transaction.type === 'SELL') {
+      const shares = Number(sideShareDelta(transaction, snapshot));
+      settled.shares = Math.abs(shares);
+      settled.price = transaction.type === 'BUY' && shares !== 0 ? transaction.amount / Math.abs(shares) : 0;
+    }
+    return settled;
+  }
+
+  if (now.getTime() - transaction.timestamp.getTime() > CONFIRMATION_TIMEOUT_MS) {
+    if (!transaction.baseline) {
+      return {
+        ...transaction,
+        status: 'UNCONFIRMED',
+        settledAt: now,
+        error: 'No prior player state to confirm against; check your balance and positions',
+      };
+    }
+    if ((transaction.type === 'WITHDRAW' || transaction.type === 'DEPOSIT') && hasLaterActivity(transaction, snapshot)) {
+      return {
+        ...transaction,
+        status: 'UNCONFIRMED',
+        settledAt: now,
+        error: 'Later activity also moved the balance; check your balance',
+      };
+    }
+    return {
+      ...transaction,
+      status: 'FAILED',
+      settledAt: now,
+      error: 'Not reflected in player state after submission',
+    };
+  }
+
+  return transaction;
+}
+
+// Settle pending transactions against snapshots of the same player state. `snapshotFor` gives
+// the snapshot for a market's trades and claims, or for withdrawals and deposits when called
+// without a market; transactions it has no snapshot for stay as they are.
+export function reconcileAllTransactions(
+  transactions: Transaction[],
+  snapshotFor: (marketId: string | undefined) => PositionSnapshot | undefined,
+  now = new Date()
+): Transaction[] {
+  let changed = false;
+  const next = transactions.map((transaction) => {
+    if (transaction.status !== 'PENDING') {
+      return transaction;
+    }
+    const snapshot = snapshotFor(transaction.marketId);
+    if (!snapshot) {
+      return transaction;
+    }
+    const settled = settleTransaction(transaction, snapshot, now);
+    changed = changed || settled !== transaction;
+    return settled;
+  });
+  return changed ? next : transactions;
+}
+
+// Settle every pending transaction that one market's snapshot can speak for. Position fields
+// are per market, so only that market's trades and claims (plus withdrawals) are checked.
+export function reconcileTransactions(
+  transactions: Transaction[],
+  marketId: string,
+  snapshot: PositionSnapshot,
+  now = new Date()
+): Transaction[] {
+  return reconcileAllTransactions(
+    transactions,
+    (transactionMarketId) => (transactionMarketId === undefined || transactionMarketId === marketId ? snapshot : undefined),
+    now
+  );
+}
+
+// Markets with transactions still waiting for confirmation
+export function pendingMarketIds(transactions: Transaction[]): string[] {
+  const ids = transactions
+    .filter((transaction) => transaction.status === 'PENDING' && transaction.marketId !== undefined)
+    .map((transaction) => transaction.marketId!);
+  return [...new Set(ids)];
+}
+
+const positionSnapshotSchema = z.object({
+  nonce: z.number(),
+  balance: z.string(),
+  yesShares: z.string(),
+  noShares: z.string(),
+  claimed: z.boolean(),
+});
+
+const storedTransactionSchema = z.object({
+  id: z.string(),
+  type: z.enum(['BUY', 'SELL', 'CLAIM', 'DEPOSIT', 'WITHDRAW']),
+  amount: z.number(),
+  shares: z.number().optional(),
+  price: z.number(),
+  timestamp: z.coerce.date(),
+  status: z.enum(['PENDING', 'COMPLETED', 'FAILED', 'UNCONFIRMED']),
+  marketId: z.string().optional(),
+  betType: z.union([z.literal(0), z.literal(1)]).optional(),
+  baseline: positionSnapshotSchema.optional(),
+  settledAt: z.coerce.date().optional(),
+  error: z.string().optional(),
+});
+
+export function serializeTransactions(transactions: Transaction[]): string {
+  return JSON.stringify(transactions.slice(0, MAX_TRACKED_TRANSACTIONS));
+}
+
+// Restore persisted transactions, dropping entries written by an incompatible version
+export function deserializeTransactions(raw: string | null): Transaction[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.flatMap((entry) => {
+      const result = storedTransactionSchema.safeParse(entry);
+      return result.success ? [result.data as Transaction] : [];
+    });
+  } catch {
+    return [];
+  }
+}
@@ -3,9 +3,9 @@ import type { L1AccountInfo } from "zkwasm-minirollup-browser";
 import {
   createCommand,
   createWithdrawCommand,
-  ZKWasmAppRpc,
 } from "zkwasm-minirollup-rpc";
 import { getRpcUrl } from "zkwasm-minirollup-browser";
+import { createAppRpc } from "../services/mockRpc";
 
 // Command constants
 const CMD_WITHDRAW = 2n;
@@ -13,7 +13,7 @@ const CMD_WITHDRAW = 2n;
 // Send transaction function (direct implementation without Redux)
 export const sendTransaction = async (params: { cmd: BigUint64Array; prikey: string }) => {
   const fullUrl = getRpcUrl();
-  const rpc = new ZKWasmAppRpc(fullUrl);
+  const rpc = createAppRpc(fullUrl);
   try {
     const { cmd, prikey } = params;
     console.log("Sending transaction with command:", cmd);
@@ -60,7 +60,7 @@ export function getWithdrawTransactionCommandArray(
 // Query state function
 async function queryStateI(prikey: string) {
   const fullUrl = getRpcUrl();
-  const rpc = new ZKWasmAppRpc(fullUrl);
+  const rpc = createAppRpc(fullUrl);
   try {
     const data: any = await rpc.queryState(prikey);
     return JSON.parse(data.data);
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ZKWASM_RPC_URL?: string;
+  readonly VITE_ZKWASM_APP_NAME?: string;
+  readonly VITE_ZKWASM_MOCK_RPC?: string;
+  readonly VITE_MOCK_ADMIN_PUBKEY?: string;
+}